@@ -7,6 +7,7 @@
 import { Database, Statement } from "bun:sqlite";
 import { Pool, type PoolClient } from "pg";
 import mysql from "mysql2/promise";
+import type { Connection as MySQLCoreConnection } from "mysql2";
 import {
   type DBConfig,
   StabilizeError,
@@ -14,6 +15,9 @@ import {
 } from "./types";
 import { type Logger, StabilizeLogger } from "./logger";
 
+const MIN_SAFE_INTEGER = BigInt(Number.MIN_SAFE_INTEGER);
+const MAX_SAFE_INTEGER = BigInt(Number.MAX_SAFE_INTEGER);
+
 /**
  * Checks if the DB configuration is for SQLite.
  * @param config The database configuration object.
@@ -41,6 +45,20 @@ function isMySQLPool(client: any): client is mysql.Pool {
   return typeof client.getConnection === 'function';
 }
 
+/**
+ * Converts the integers of a SQLite row, which are read as bigints to keep 64-bit values such as snowflake IDs exact,
+ * back to numbers when they are within the safe integer range.
+ * @param row The row returned by bun:sqlite.
+ * @returns The same row.
+ */
+function fromSQLiteRow(row: Record<string, any>): Record<string, any> {
+  for (const key in row) {
+    const value = row[key];
+    if (typeof value === "bigint" && value >= MIN_SAFE_INTEGER && value <= MAX_SAFE_INTEGER) row[key] = Number(value);
+  }
+  return row;
+}
+
 /**
  * Provides a unified database client for interacting with PostgreSQL, MySQL, and SQLite.
  */
@@ -53,6 +71,7 @@ export class DBClient {
   private maxJitter: number;
 
   private preparedStatements: Map<string, Statement> = new Map();
+  private cursorCounter = 0;
   public readonly isTransactionClient: boolean = false;
 
   /**
@@ -86,7 +105,7 @@ export class DBClient {
    */
   private initializeClient(config: DBConfig) {
     if (isSQLiteConfig(config)) {
-      this.client = new Database(config.connectionString, { create: true });
+      this.client = new Database(config.connectionString, { create: true, safeIntegers: true });
       this.logger.logDebug(`Initialized Bun SQLite client.`);
     } else if (isMySQLConfig(config)) {
       this.client = mysql.createPool(config.connectionString);
@@ -123,7 +142,7 @@ export class DBClient {
             stmt = this.client.prepare(query);
             this.preparedStatements.set(query, stmt);
           }
-          result = stmt.all(...params);
+          result = stmt.all(...params).map(fromSQLiteRow);
         } else if (this.config.type === DBType.MySQL) {
           const [rows] = await (this.client as mysql.Pool).query(query, params);
           result = rows;
@@ -150,6 +169,139 @@ export class DBClient {
     throw new StabilizeError("Query failed: maximum retries reached without success", "QUERY_ERROR");
   }
 
+  /**
+   * Executes a data-modifying statement (INSERT, UPDATE or DELETE) and returns the number of affected rows.
+   * Unlike `query`, failed statements are not retried.
+   * @param query The SQL query string.
+   * @param params Query parameters.
+   * @returns The number of rows the statement inserted, updated or deleted.
+   * @throws StabilizeError if the statement fails.
+   */
+  async execute(query: string, params: any[] = []): Promise<number> {
+    const start = Date.now();
+    try {
+      let affected: number;
+
+      if (this.client instanceof Database) {
+        let stmt = this.preparedStatements.get(query);
+        if (!stmt) {
+          stmt = this.client.prepare(query);
+          this.preparedStatements.set(query, stmt);
+        }
+        affected = stmt.run(...params).changes;
+      } else if (this.config.type === DBType.MySQL) {
+        const [result] = await (this.client as mysql.Pool).query<mysql.ResultSetHeader>(query, params);
+        affected = result.affectedRows;
+      } else if (this.config.type === DBType.Postgres) {
+        let paramIndex = 0;
+        const pgQuery = query.replace(/\?/g, () => `$${++paramIndex}`);
+        const pgResult = await (this.client as Pool).query(pgQuery, params);
+        affected = pgResult.rowCount ?? 0;
+      } else {
+        throw new StabilizeError("Unknown database client type", "QUERY_ERROR");
+      }
+
+      this.logger.logQuery(query, params, Date.now() - start);
+      return affected;
+    } catch (error) {
+      this.logger.logError(error as Error);
+      if (error instanceof StabilizeError) throw error;
+      throw new StabilizeError(`Query failed: ${(error as Error).message}`, "QUERY_ERROR", error as Error);
+    }
+  }
+
+  /**
+   * Executes a SQL query and yields the resulting rows one at a time, without loading the whole result set into memory.
+   * Uses a server-side cursor on Postgres, a streaming query on MySQL and statement iteration on SQLite.
+   * The underlying connection is held until iteration completes or the consumer stops early.
+   * @param query The SQL query string.
+   * @param params Query parameters.
+   * @param options Optional: `batchSize` controls how many rows are fetched per round trip on Postgres (default 100).
+   * @returns An async iterable of rows.
+   * @throws StabilizeError if the query fails.
+   */
+  async *stream<T>(query: string, params: any[] = [], options: { batchSize?: number } = {}): AsyncGenerator<T> {
+    const start = Date.now();
+    this.logger.logQuery(query, params);
+    try {
+      if (this.client instanceof Database) {
+        // A dedicated statement, so other queries can reuse the cached one while this iterates.
+        const stmt = this.client.prepare(query);
+        try {
+          for (const row of stmt.iterate(...params)) {
+            yield fromSQLiteRow(row as Record<string, any>) as T;
+          }
+        } finally {
+          stmt.finalize();
+        }
+      } else if (this.config.type === DBType.MySQL) {
+        const connection = isMySQLPool(this.client)
+          ? await this.client.getConnection()
+          : (this.client as mysql.PoolConnection);
+        let completed = false;
+        try {
+          const core = connection.connection as unknown as MySQLCoreConnection;
+          for await (const row of core.query(query, params).stream()) {
+            yield row as T;
+          }
+          completed = true;
+        } finally {
+          if (connection !== this.client) {
+            // A stream abandoned mid-way leaves unread rows on the wire, so the connection cannot be reused.
+            if (completed) connection.release();
+            else connection.destroy();
+          }
+        }
+      } else if (this.config.type === DBType.Postgres) {
+        yield* this.streamPostgres<T>(query, params, options.batchSize || 100);
+      } else {
+        throw new StabilizeError("Unknown database client type", "QUERY_ERROR");
+      }
+    } catch (error) {
+      this.logger.logError(error as Error);
+      if (error instanceof StabilizeError) throw error;
+      throw new StabilizeError(`Stream query failed: ${(error as Error).message}`, "QUERY_ERROR", error as Error);
+    }
+    this.logger.logDebug(`Stream completed in ${Date.now() - start}ms`);
+  }
+
+  /**
+   * @internal
+   * Streams a Postgres query through a server-side cursor, fetching `batchSize` rows at a time.
+   * Cursors only live inside a transaction, so one is opened unless this client already is a transaction client.
+   */
+  private async *streamPostgres<T>(query: string, params: any[], batchSize: number): AsyncGenerator<T> {
+    const connection = this.client instanceof Pool ? await this.client.connect() : (this.client as PoolClient);
+    const ownsTransaction = !this.isTransactionClient;
+    const cursor = `stabilize_cursor_${++this.cursorCounter}`;
+    let paramIndex = 0;
+    const pgQuery = query.replace(/\?/g, () => `$${++paramIndex}`);
+    let failed = false;
+
+    try {
+      if (ownsTransaction) await connection.query("BEGIN");
+      await connection.query(`DECLARE ${cursor} NO SCROLL CURSOR FOR ${pgQuery}`, params);
+      while (true) {
+        const { rows } = await connection.query(`FETCH ${batchSize} FROM ${cursor}`);
+        for (const row of rows) {
+          yield row as T;
+        }
+        if (rows.length < batchSize) break;
+      }
+    } catch (error) {
+      failed = true;
+      throw error;
+    } finally {
+      if (ownsTransaction) {
+        // Ending the transaction also closes the cursor.
+        await connection.query(failed ? "ROLLBACK" : "COMMIT").catch(() => {});
+      } else if (!failed) {
+        await connection.query(`CLOSE ${cursor}`).catch(() => {});
+      }
+      if (connection !== this.client) connection.release();
+    }
+  }
+
   /**
    * Runs a callback within a database transaction.
    * Handles commit/rollback and connection release.
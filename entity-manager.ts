@@ -0,0 +1,429 @@
+/**
+ * @file entity-manager.ts
+ * @description Provides a unit of work that tracks loaded entities and writes their changes in one transaction.
+ * @author ElectronSz
+ */
+import { DBClient } from "./client";
+import { type Logger } from "./logger";
+import { MetadataStorage } from "./model";
+import { Repository } from "./repository";
+import { type CacheConfig, type PrimaryKeyValue, RelationType, StabilizeError } from "./types";
+import type { WhereCriteria } from "./query-builder";
+
+type ModelClass = new (...args: any[]) => any;
+
+/**
+ * A unit of work: loads entities into an identity map, tracks changes made to them in memory,
+ * and writes everything with `flush()` in a single transaction.
+ *
+ * - Each record is loaded at most once per entity manager; finding it again returns the same instance.
+ * - `flush()` updates only the columns that changed since the entity was loaded (or last flushed),
+ *   without reading the record before or after the write.
+ * - New entities are inserted parents first and removed entities are deleted children first, ordered by
+ *   the model relations. A foreign key left empty is filled from the referenced entity once it has been
+ *   inserted (`post.author = user`, or `user.posts = [post]`).
+ *
+ * Create one entity manager per request or job with `Stabilize.createEntityManager()`.
+ * After a failed flush the database is rolled back but the in-memory entities are not; call `clear()`.
+ */
+export class EntityManager {
+  private client: DBClient;
+  private cacheConfig?: CacheConfig;
+  private logger: Logger;
+  private identityMap: Map<ModelClass, Map<string, any>> = new Map();
+  private snapshots: WeakMap<object, Record<string, unknown>> = new WeakMap();
+  private insertions: Set<any> = new Set();
+  private removals: Set<any> = new Set();
+
+  /**
+   * Creates an instance of EntityManager.
+   * @param client The database client instance for executing queries.
+   * @param cacheConfig Optional configuration for the caches invalidated by writes.
+   * @param logger A logger instance for logging messages.
+   */
+  constructor(client: DBClient, cacheConfig: CacheConfig | undefined, logger: Logger) {
+    this.client = client;
+    this.cacheConfig = cacheConfig;
+    this.logger = logger;
+  }
+
+  /**
+   * Finds a record by its primary key, returning the managed instance if it was already loaded.
+   * @param model The model class.
+   * @param id The primary key value, or an object of key properties for composite keys.
+   * @param options Optional: Relations to load when the record is read from the database.
+   * @returns A promise that resolves to the managed entity, or `null` if not found or removed.
+   * @example
+   * ```
+   * const em = stabilize.createEntityManager();
+   * const user = await em.find(User, 1);
+   * user.name = 'Ciniso Dlamini';
+   * await em.flush(); // UPDATE users SET name = ? WHERE id = ?
+   * ```
+   */
+  async find<T>(model: new (...args: any[]) => T, id: PrimaryKeyValue, options: { relations?: string[] } = {}): Promise<T | null> {
+    const managed = this.identityMap.get(model)?.get(this.keyOf(model, id));
+    if (managed) return this.removals.has(managed) ? null : managed;
+
+    const entity = await this.repository(model, this.client, false).findOne(id, options);
+    return entity ? this.merge(model, entity) : null;
+  }
+
+  /**
+   * Finds the records matching a set of criteria. Records that are already managed are returned
+   * as their managed instances, including any unflushed changes.
+   * @param model The model class.
+   * @param criteria The conditions to match, as accepted by `QueryBuilder.where`.
+   * @param options Optional: Relations to load, ordering and a row limit, as for `Repository.findBy`.
+   * @returns A promise that resolves to the managed entities.
+   */
+  async findBy<T>(
+    model: new (...args: any[]) => T,
+    criteria: WhereCriteria<T>,
+    options: { relations?: string[]; orderBy?: string; limit?: number } = {},
+  ): Promise<T[]> {
+    const entities = await this.repository(model, this.client, false).findBy(criteria, options);
+    return entities
+      .map((entity) => this.merge(model, entity))
+      .filter((entity) => !this.removals.has(entity));
+  }
+
+  /**
+   * Schedules a new entity for insertion on the next flush. Persisting a removed entity cancels its removal;
+   * persisting a managed entity does nothing, as its changes are tracked already.
+   * @param entity A model instance (e.g. `new User({ name: 'Ciniso' })`).
+   * @throws {StabilizeError} If the entity is not an instance of a model defined with `defineModel`.
+   * @example
+   * ```
+   * const user = new User({ name: 'Ciniso' });
+   * const post = new Post({ title: 'Hello', author: user });
+   * em.persist(user);
+   * em.persist(post);
+   * await em.flush(); // inserts the user, then the post with its authorId set
+   * ```
+   */
+  persist(entity: object): void {
+    this.modelOf(entity);
+    if (this.snapshots.has(entity)) {
+      this.removals.delete(entity);
+      return;
+    }
+    this.insertions.add(entity);
+  }
+
+  /**
+   * Schedules an entity for deletion on the next flush. Soft-deletable models are soft deleted, as with
+   * `Repository.delete`. Removing an entity that was persisted but not flushed yet cancels its insertion.
+   * @param entity A managed entity, or a model instance with its primary key set.
+   * @throws {StabilizeError} If the entity is not managed and has no primary key.
+   */
+  remove(entity: object): void {
+    if (this.insertions.delete(entity)) return;
+    if (!this.snapshots.has(entity)) {
+      const model = this.modelOf(entity);
+      if (this.idOf(model, entity) === undefined) {
+        throw new StabilizeError(`Cannot remove ${MetadataStorage.getTableName(model)} without a primary key`, "DELETE_ERROR");
+      }
+      entity = this.merge(model, entity);
+    }
+    this.removals.add(entity);
+  }
+
+  /**
+   * Checks whether an entity is managed by this entity manager: loaded, flushed, or scheduled for insertion.
+   * @param entity The entity.
+   */
+  contains(entity: object): boolean {
+    return this.snapshots.has(entity) || this.insertions.has(entity);
+  }
+
+  /**
+   * Gets the properties of a managed entity that changed since it was loaded or last flushed.
+   * @param entity The entity.
+   * @returns The changed column properties, or an empty array if the entity is not managed.
+   */
+  getChanges(entity: object): string[] {
+    const snapshot = this.snapshots.get(entity);
+    if (!snapshot) return [];
+    const current = this.snapshot(this.modelOf(entity), entity);
+    return Object.keys(current).filter((key) => current[key] !== snapshot[key]);
+  }
+
+  /**
+   * Checks whether the next flush would write an entity: it is new, removed, or has changed properties.
+   * @param entity The entity.
+   */
+  isDirty(entity: object): boolean {
+    return this.insertions.has(entity) || this.removals.has(entity) || this.getChanges(entity).length > 0;
+  }
+
+  /**
+   * Stops tracking an entity. Its changes are no longer written, and finding it again reads a new instance.
+   * @param entity The entity.
+   */
+  detach(entity: object): void {
+    this.insertions.delete(entity);
+    this.removals.delete(entity);
+    if (!this.snapshots.delete(entity)) return;
+    const model = this.modelOf(entity);
+    const id = this.idOf(model, entity);
+    if (id !== undefined) this.identityMap.get(model)?.delete(this.keyOf(model, id));
+  }
+
+  /**
+   * Stops tracking every entity and discards all unflushed changes.
+   */
+  clear(): void {
+    this.identityMap.clear();
+    this.snapshots = new WeakMap();
+    this.insertions.clear();
+    this.removals.clear();
+  }
+
+  /**
+   * Writes all pending changes in one transaction: inserts new entities (parents first), updates the changed
+   * columns of managed entities, then deletes removed entities (children first). Generated values such as
+   * auto-increment IDs, defaults and version numbers are copied back onto the entities.
+   * @returns A promise that resolves when the transaction has committed.
+   * @throws {StabilizeError} If a write fails, including `OPTIMISTIC_LOCK_ERROR` when a versioned entity was
+   * modified by another transaction. Nothing is written in that case.
+   */
+  async flush(): Promise<void> {
+    const start = performance.now();
+    const inserts = this.sortByDependency([...this.insertions]);
+    const deletes = this.sortByDependency([...this.removals]).reverse();
+    const updates = this.snapshotted().filter((entity) => !this.removals.has(entity));
+    let updated = 0;
+
+    await this.client.transaction(async (txClient) => {
+      for (const entity of inserts) await this.insert(entity, txClient);
+      for (const entity of updates) {
+        this.fillForeignKeys(entity);
+        const repository = this.repository(this.modelOf(entity), txClient, true);
+        if (await repository.updateTracked(entity, () => this.getChanges(entity), txClient)) updated++;
+      }
+      for (const entity of deletes) {
+        const model = this.modelOf(entity);
+        await this.repository(model, txClient, true).delete(this.idOf(model, entity)!);
+      }
+    });
+
+    for (const entity of deletes) this.detach(entity);
+    for (const entity of inserts) {
+      this.insertions.delete(entity);
+      this.merge(this.modelOf(entity), entity);
+    }
+    for (const entity of updates) this.snapshots.set(entity, this.snapshot(this.modelOf(entity), entity));
+
+    this.logger.logDebug(
+      `Flushed ${inserts.length} inserts, ${updated} updates and ${deletes.length} deletes in ${(performance.now() - start).toFixed(2)}ms`,
+    );
+  }
+
+  /**
+   * @internal
+   * Inserts a new entity and copies the stored values (generated IDs, defaults, timestamps) back onto it.
+   */
+  private async insert(entity: any, client: DBClient): Promise<void> {
+    const model = this.modelOf(entity);
+    this.fillForeignKeys(entity);
+
+    // Only column values are passed on: relation properties may form cycles (user.posts[0].author === user).
+    const columns = MetadataStorage.getColumns(model);
+    const values = Object.create(Object.getPrototypeOf(entity));
+    for (const key of Object.keys(columns)) {
+      if (entity[key] !== undefined) values[key] = entity[key];
+    }
+    const created = await this.repository(model, client, true).create(values);
+    for (const key of Object.keys(columns)) {
+      if (key in created) entity[key] = created[key];
+    }
+  }
+
+  /**
+   * @internal
+   * Fills empty foreign keys of an entity from the entities it references: its own many-to-one and
+   * one-to-one relation properties, and the one-to-many relation properties of pending parents.
+   */
+  private fillForeignKeys(entity: any): void {
+    const model = this.modelOf(entity);
+    for (const rel of Object.values(MetadataStorage.getRelations(model))) {
+      if ((rel.type !== RelationType.ManyToOne && rel.type !== RelationType.OneToOne) || !rel.foreignKey) continue;
+      const foreignKey = this.propertyOf(model, rel.foreignKey);
+      const parent = entity[rel.property];
+      if (entity[foreignKey] !== undefined && entity[foreignKey] !== null) continue;
+      if (parent === null || typeof parent !== "object") continue;
+      const parentKey = MetadataStorage.getPrimaryKey(rel.target())[0]!;
+      if (parent[parentKey] !== undefined) entity[foreignKey] = parent[parentKey];
+    }
+
+    for (const parent of [...this.insertions, ...this.snapshotted()]) {
+      const parentModel = this.modelOf(parent);
+      for (const rel of Object.values(MetadataStorage.getRelations(parentModel))) {
+        if (rel.type !== RelationType.OneToMany || rel.target() !== model) continue;
+        if (!Array.isArray(parent[rel.property]) || !parent[rel.property].includes(entity)) continue;
+        const inverseKey = this.propertyOf(model, rel.inverseKey ?? rel.foreignKey!);
+        const parentKey = MetadataStorage.getPrimaryKey(parentModel)[0]!;
+        if ((entity[inverseKey] === undefined || entity[inverseKey] === null) && parent[parentKey] !== undefined) {
+          entity[inverseKey] = parent[parentKey];
+        }
+      }
+    }
+  }
+
+  /**
+   * @internal
+   * Orders entities so that every entity comes after the entities it depends on: the parents it references
+   * through a many-to-one or one-to-one foreign key, or whose one-to-many relation property contains it.
+   * Entities without dependencies keep their original order; cycles are broken arbitrarily.
+   */
+  private sortByDependency(entities: any[]): any[] {
+    const pending = new Set(entities);
+    const sorted: any[] = [];
+    const visited = new Set<any>();
+    const visit = (entity: any) => {
+      if (visited.has(entity)) return;
+      visited.add(entity);
+      for (const parent of this.parentsOf(entity, pending)) visit(parent);
+      sorted.push(entity);
+    };
+    entities.forEach(visit);
+    return sorted;
+  }
+
+  /**
+   * @internal
+   * Gets the entities among `candidates` that an entity depends on (see `sortByDependency`).
+   */
+  private parentsOf(entity: any, candidates: Set<any>): any[] {
+    const model = this.modelOf(entity);
+    const parents: any[] = [];
+    for (const rel of Object.values(MetadataStorage.getRelations(model))) {
+      if ((rel.type !== RelationType.ManyToOne && rel.type !== RelationType.OneToOne) || !rel.foreignKey) continue;
+      const target = rel.target();
+      const targetKey = MetadataStorage.getPrimaryKey(target)[0]!;
+      const foreignKey = entity[this.propertyOf(model, rel.foreignKey)];
+      for (const candidate of candidates) {
+        if (candidate === entity || !(candidate instanceof target)) continue;
+        const referenced = entity[rel.property] === candidate
+          || (foreignKey !== undefined && foreignKey !== null && String(candidate[targetKey]) === String(foreignKey));
+        if (referenced) parents.push(candidate);
+      }
+    }
+    for (const candidate of candidates) {
+      if (candidate === entity) continue;
+      for (const rel of Object.values(MetadataStorage.getRelations(this.modelOf(candidate)))) {
+        if (rel.type === RelationType.OneToMany && Array.isArray(candidate[rel.property]) && candidate[rel.property].includes(entity)) {
+          parents.push(candidate);
+        }
+      }
+    }
+    return parents;
+  }
+
+  /**
+   * @internal
+   * Registers a loaded entity in the identity map, returning the instance that is already managed for
+   * the same record if there is one.
+   */
+  private merge<T>(model: ModelClass, entity: T): T {
+    const id = this.idOf(model, entity);
+    if (id === undefined) return entity;
+    const key = this.keyOf(model, id);
+    let entities = this.identityMap.get(model);
+    if (!entities) {
+      entities = new Map();
+      this.identityMap.set(model, entities);
+    }
+    const managed = entities.get(key);
+    if (managed) return managed;
+    entities.set(key, entity);
+    this.snapshots.set(entity as object, this.snapshot(model, entity));
+    return entity;
+  }
+
+  /**
+   * @internal
+   * Captures the column values of an entity in a form that can be compared with `===`.
+   */
+  private snapshot(model: ModelClass, entity: any): Record<string, unknown> {
+    return Object.fromEntries(
+      Object.keys(MetadataStorage.getColumns(model)).map((key) => [key, comparable(entity[key])]),
+    );
+  }
+
+  /**
+   * @internal
+   * Gets every entity that has been loaded or flushed.
+   */
+  private snapshotted(): any[] {
+    return [...this.identityMap.values()].flatMap((entities) => [...entities.values()]);
+  }
+
+  /**
+   * @internal
+   * Creates a repository for a model. Reads bypass the cache, since the identity map already holds
+   * the session's entities; writes use it so cached queries are invalidated.
+   */
+  private repository<T>(model: new (...args: any[]) => T, client: DBClient, cached: boolean): Repository<T> {
+    const cacheConfig = cached ? this.cacheConfig : undefined;
+    return new Repository(client, model, cacheConfig, this.logger);
+  }
+
+  /**
+   * @internal
+   * Gets the model class of an entity.
+   * @throws {StabilizeError} If the entity is not an instance of a model defined with `defineModel`.
+   */
+  private modelOf(entity: object): ModelClass {
+    const model = Object.getPrototypeOf(entity)?.constructor;
+    if (!model || !MetadataStorage.getTableName(model)) {
+      throw new StabilizeError("Entity is not an instance of a model defined with defineModel", "UNIT_OF_WORK_ERROR");
+    }
+    return model;
+  }
+
+  /**
+   * @internal
+   * Gets the primary key value of an entity, or `undefined` if any key property is missing.
+   */
+  private idOf(model: ModelClass, entity: any): PrimaryKeyValue | undefined {
+    const primaryKey = MetadataStorage.getPrimaryKey(model);
+    const values = primaryKey.map((key) => entity[key]);
+    if (values.some((value) => value === undefined || value === null)) return undefined;
+    if (primaryKey.length === 1) return values[0];
+    return Object.fromEntries(primaryKey.map((key, i) => [key, values[i]]));
+  }
+
+  /**
+   * @internal
+   * Formats a primary key value as an identity map key.
+   */
+  private keyOf(model: ModelClass, id: PrimaryKeyValue): string {
+    if (typeof id !== "object" || id === null) return String(id);
+    return MetadataStorage.getPrimaryKey(model).map((key) => String((id as Record<string, any>)[key])).join(":");
+  }
+
+  /**
+   * @internal
+   * Maps a column name of a model to its property name.
+   */
+  private propertyOf(model: ModelClass, column: string): string {
+    const entry = Object.entries(MetadataStorage.getColumns(model)).find(([key, col]) => (col.name ?? key) === column);
+    return entry ? entry[0] : column;
+  }
+}
+
+/**
+ * Converts a column value to a primitive that compares equal (`===`) for equal values:
+ * dates by time, buffers by content, and objects (JSON columns) by their serialization.
+ * @param value The property value.
+ * @returns The comparable value.
+ */
+function comparable(value: unknown): unknown {
+  if (value instanceof Date) return `date:${value.getTime()}`;
+  if (value instanceof Uint8Array) return `bytes:${Buffer.from(value).toString("base64")}`;
+  if (typeof value === "bigint") return `bigint:${value}`;
+  if (value !== null && typeof value === "object") return `json:${JSON.stringify(value)}`;
+  return value;
+}
@@ -16,7 +16,7 @@ export type HookType =
   | "beforeDelete"
   | "afterDelete";
 
-export type HookCallback = (entity: any) => Promise<void> | void;
+export type HookCallback<T = any> = (entity: T) => Promise<void> | void;
 
 export interface Hook {
   type: HookType;
@@ -25,8 +25,8 @@ export interface Hook {
 
 // Extend ModelConfig to include hooks
 declare module "./model" {
-  interface ModelConfig {
-    hooks?:  Partial<Record<HookType, HookCallback | HookCallback[]>>;
+  interface ModelConfig<T = any> {
+    hooks?:  Partial<Record<HookType, HookCallback<T> | HookCallback<T>[]>>;
   }
 }
 
@@ -35,7 +35,10 @@ declare module "./model" {
  * @param model The model class.
  * @param hooks A record of hook types to their callbacks.
  */
-export function registerHooks(model: Function, hooks: Record<HookType, HookCallback | HookCallback[]>) {
+export function registerHooks<T>(
+  model: abstract new (...args: any[]) => T,
+  hooks: Partial<Record<HookType, HookCallback<T> | HookCallback<T>[]>>,
+) {
   const config = MetadataStorage.getModelMetadata(model) || { tableName: "", columns: {} };
   config.hooks = { ...config.hooks, ...hooks };
   MetadataStorage.setModelMetadata(model, config);
@@ -6,8 +6,10 @@
 import { Cache } from "./cache";
 import { DBClient } from "./client";
 import { type Logger, StabilizeLogger } from "./logger";
-import { QueryBuilder } from "./query-builder";
+import { QueryBuilder, type WhereCriteria, type ColumnCriteria, type WhereOperators, type WhereGroup, type AggregateFunction, type AggregateRow, type JoinType, type CursorPage, type CursorPaginationOptions, type RelationLoader, type LockMode, type LockWait, type TrashedMode, type PropertyName, type NumericPropertyName, type Projection } from "./query-builder";
 import { Repository } from "./repository";
+import { EntityManager } from "./entity-manager";
+import { RelationBatcher, type RelationBatchLoader, type RelationBatcherOptions } from "./relation-batcher";
 import { runMigrations, generateMigration, type Migration, mapDataTypeToSql} from "./migrations";
 import {
   type DBConfig,
@@ -20,10 +22,16 @@ import {
   type QueryHint,
   RelationType,
   type CacheStats,
+  type PrimaryKeyValue,
   LogLevel,
 } from "./types";
-import { defineModel, MetadataStorage } from "./model";
+import { defineModel, MetadataStorage, type InferEntity, type ColumnValue, type ModelClass, type CustomColumnTypes, type ColumnTransformer, type ComputedField } from "./model";
+import { encryptionTransformer } from "./utils/transformers";
+import { serialize, type SerializeOptions } from "./serializer";
+import { ValidationError, unique, type ValidationRule, type ValidationContext, type ValidationResult, type ValidationOperation } from "./validation";
+import { registerColumnType, type CustomColumnType } from "./utils/column-types";
 import type { Hook } from "./hooks";
+import { generateId, ulid, snowflake, type IdStrategy } from "./utils/ids";
 
 export class Stabilize {
   public client: DBClient;
@@ -67,6 +75,24 @@ export class Stabilize {
     return new Repository(this.client, model, cacheConfig, this.logger);
   }
 
+  /**
+   * Creates a unit of work with its own identity map. Changes made to the entities it loads are tracked
+   * and written with `flush()` in a single transaction.
+   * @returns A new `EntityManager` instance.
+   * @example
+   * ```
+   * const em = stabilize.createEntityManager();
+   * const user = await em.find(User, 1);
+   * user.name = 'Ciniso Dlamini';
+   * em.persist(new Post({ title: 'Hello', author: user }));
+   * await em.flush();
+   * ```
+   */
+  createEntityManager(): EntityManager {
+    const cacheConfig = this.cache ? this.cache.config : undefined;
+    return new EntityManager(this.client, cacheConfig, this.logger);
+  }
+
   /**
    * Executes a callback within a database transaction, ensuring all operations are atomic.
    * The callback receives a transactional `DBClient` instance that must be passed to
@@ -128,8 +154,10 @@ export class Stabilize {
 
 export {
   Repository,
+  EntityManager,
   DBClient,
   QueryBuilder,
+  RelationBatcher,
   Cache,
   StabilizeLogger,
   DBType,
@@ -139,10 +167,17 @@ export {
   MetadataStorage,
   mapDataTypeToSql,
   StabilizeError,
+  ValidationError,
   runMigrations,
   generateMigration,
   defineModel,
-  
+  serialize,
+  unique,
+  generateId,
+  registerColumnType,
+  encryptionTransformer,
+  ulid,
+  snowflake,
 };
 
 export type {
@@ -153,6 +188,38 @@ export type {
   QueryHint,
   PoolMetrics,
   CacheStats,
+  PrimaryKeyValue,
+  IdStrategy,
+  InferEntity,
+  ColumnValue,
+  ModelClass,
+  CustomColumnTypes,
+  CustomColumnType,
+  ColumnTransformer,
+  ComputedField,
+  SerializeOptions,
+  ValidationRule,
+  ValidationContext,
+  ValidationResult,
+  ValidationOperation,
   Logger,
-  Hook
+  Hook,
+  WhereCriteria,
+  ColumnCriteria,
+  WhereOperators,
+  WhereGroup,
+  AggregateFunction,
+  AggregateRow,
+  JoinType,
+  CursorPage,
+  CursorPaginationOptions,
+  RelationLoader,
+  LockMode,
+  LockWait,
+  TrashedMode,
+  PropertyName,
+  NumericPropertyName,
+  Projection,
+  RelationBatchLoader,
+  RelationBatcherOptions,
 };
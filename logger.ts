@@ -42,7 +42,7 @@ export class StabilizeLogger implements Logger {
 
   /** @internal Checks if a message at a given level should be logged. */
   private shouldLog(messageLevel: LogLevel): boolean {
-    return messageLevel <= this.level;
+    return messageLevel >= this.level;
   }
 
   /** @internal Rotates log files if the current one exceeds the max size. */
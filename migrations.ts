@@ -6,8 +6,10 @@
  */
 
 import { DBClient } from "./client";
-import { MetadataStorage } from "./model";
+import { type ColumnConfig, MetadataStorage } from "./model";
 import { type DBConfig, type Migration, StabilizeError, DBType, DataTypes } from "./types";
+import type { IdStrategy } from "./utils/ids";
+import { getCustomColumnType } from "./utils/column-types";
 
 /**
  * @internal
@@ -26,6 +28,8 @@ function formatQuery(query: string, dbType: DBType): string {
 
 /**
  * Maps an abstract data type to the correct SQL type string for the specified database dialect.
+ * Custom types registered with `registerColumnType` map to their `sqlType`. `ENUM` and `ARRAY` map to
+ * their generic form here; `generateMigration` uses the column's `values` and `items` for the exact type.
  * @param dt The data type to map.
  * @param dbType The target database dialect.
  * @returns The SQL column type string.
@@ -38,6 +42,9 @@ function mapDataTypeToSql(dt: DataTypes | string, dbType: DBType): string {
     type = DataTypes[dt].toLowerCase();
   }
 
+  const custom = getCustomColumnType(type);
+  if (custom) return custom.sqlType[dbType];
+
   if (dbType === DBType.Postgres) {
     switch (type) {
       case "string": return "TEXT";
@@ -53,6 +60,8 @@ function mapDataTypeToSql(dt: DataTypes | string, dbType: DBType): string {
       case "json": return "JSONB";
       case "uuid": return "UUID";
       case "blob": return "BYTEA";
+      case "enum": return "TEXT";
+      case "array": return "TEXT[]";
       default: return "TEXT";
     }
   }
@@ -71,6 +80,8 @@ function mapDataTypeToSql(dt: DataTypes | string, dbType: DBType): string {
       case "json": return "JSON";
       case "uuid": return "CHAR(36)";
       case "blob": return "BLOB";
+      case "enum": return "VARCHAR(255)";
+      case "array": return "JSON";
       default: return "TEXT";
     }
   }
@@ -89,6 +100,8 @@ function mapDataTypeToSql(dt: DataTypes | string, dbType: DBType): string {
       case "json": return "TEXT";
       case "uuid": return "TEXT";
       case "blob": return "BLOB";
+      case "enum": return "TEXT";
+      case "array": return "TEXT";
       default: return "TEXT";
     }
   }
@@ -98,21 +111,94 @@ function mapDataTypeToSql(dt: DataTypes | string, dbType: DBType): string {
 /**
  * @internal
  * Gets the database-specific SQL for an auto-incrementing primary key.
+ * @param type The key column's declared type, `INTEGER` or `BIGINT`.
  * @param dbType The target database dialect.
  * @returns The SQL string for the primary key column definition.
  */
-function getAutoIncrementPK(dbType: DBType): string {
+function getAutoIncrementPK(type: DataTypes, dbType: DBType): string {
+  const big = type === DataTypes.BIGINT;
   switch (dbType) {
     case DBType.Postgres:
-      return "SERIAL PRIMARY KEY";
+      return big ? "BIGSERIAL PRIMARY KEY" : "SERIAL PRIMARY KEY";
     case DBType.MySQL:
-      return "INT AUTO_INCREMENT PRIMARY KEY";
+      return big ? "BIGINT AUTO_INCREMENT PRIMARY KEY" : "INT AUTO_INCREMENT PRIMARY KEY";
     case DBType.SQLite:
     default:
       return "INTEGER PRIMARY KEY AUTOINCREMENT";
   }
 }
 
+/**
+ * @internal
+ * Gets the column type for a primary key generated by an ID strategy.
+ * @param strategy The model's ID strategy.
+ * @param type The key column's declared type.
+ * @param dbType The target database dialect.
+ * @returns The SQL type for the key column.
+ */
+function getIdColumnType(strategy: IdStrategy, type: DataTypes | string, dbType: DBType): string {
+  switch (strategy) {
+    case "uuidv4":
+    case "uuidv7":
+      return mapDataTypeToSql("uuid", dbType);
+    case "ulid":
+      return dbType === DBType.SQLite ? "TEXT" : "CHAR(26)";
+    case "snowflake":
+      return mapDataTypeToSql("bigint", dbType);
+    default:
+      return mapDataTypeToSql(type, dbType);
+  }
+}
+
+/**
+ * @internal
+ * Gets the SQL type of a column that is not a single primary key, including the `ENUM` and `ARRAY` types
+ * that depend on the column configuration. SQLite enums are TEXT columns restricted by a CHECK constraint.
+ * @param col The column configuration.
+ * @param column The SQL column name.
+ * @param tableName The table name, used to name Postgres enum types.
+ * @param dbType The target database dialect.
+ * @returns The SQL type for the column.
+ * @throws {StabilizeError} If an `ENUM` column has no `values`.
+ */
+function getColumnSqlType(col: ColumnConfig, column: string, tableName: string, dbType: DBType): string {
+  if (col.type === DataTypes.ENUM) {
+    if (!col.values?.length) {
+      throw new StabilizeError(`Enum column ${column} on ${tableName} has no values`, "MIGRATION_ERROR");
+    }
+    const values = col.values.map(quoteLiteral).join(", ");
+    switch (dbType) {
+      case DBType.Postgres:
+        return getEnumTypeName(col, column, tableName);
+      case DBType.MySQL:
+        return `ENUM(${values})`;
+      case DBType.SQLite:
+      default:
+        return `TEXT CHECK (${column} IN (${values}))`;
+    }
+  }
+  if (col.type === DataTypes.ARRAY && dbType === DBType.Postgres) {
+    return `${mapDataTypeToSql(col.items ?? DataTypes.STRING, dbType)}[]`;
+  }
+  return mapDataTypeToSql(col.type, dbType);
+}
+
+/**
+ * @internal
+ * Gets the name of the Postgres type created for an `ENUM` column.
+ */
+function getEnumTypeName(col: ColumnConfig, column: string, tableName: string): string {
+  return col.enumName ?? `${tableName}_${column}`;
+}
+
+/**
+ * @internal
+ * Quotes a string as a SQL literal.
+ */
+function quoteLiteral(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
 /**
  * Generates SQL migration scripts (`up` and `down`) based on a model's configuration.
  * @param model The model class defined with `defineModel`.
@@ -134,18 +220,28 @@ export async function generateMigration(
   const validators = MetadataStorage.getValidators(model);
   const versioned = MetadataStorage.isVersioned(model);
   const timestamps = MetadataStorage.getTimestamps(model);
+  const primaryKey = MetadataStorage.getPrimaryKey(model).filter((key) => columns[key]);
+  const idStrategy = MetadataStorage.getIdStrategy(model);
+  // A single integer key is auto-incrementing unless the ORM generates it; other single keys are plain primary keys.
+  const singleKey = primaryKey.length === 1 ? primaryKey[0] : null;
 
   const columnDefs: string[] = [];
+  // Postgres enum types are created before the table and dropped after it.
+  const enumTypes: { name: string; values: readonly string[] }[] = [];
 
   for (const [key, col] of Object.entries(columns)) {
     const defParts: string[] = [];
 
-    if (col.name === "id") {
-      defParts.push("id");
-      defParts.push(getAutoIncrementPK(dbType));
+    defParts.push(col.name || key);
+    if (key === singleKey && idStrategy === "autoincrement" && (col.type === DataTypes.INTEGER || col.type === DataTypes.BIGINT)) {
+      defParts.push(getAutoIncrementPK(col.type, dbType));
+    } else if (key === singleKey) {
+      defParts.push(getIdColumnType(idStrategy, col.type, dbType), "PRIMARY KEY");
     } else {
-      defParts.push(col.name || key);
-      defParts.push(mapDataTypeToSql(col.type, dbType));
+      defParts.push(getColumnSqlType(col, col.name || key, tableName, dbType));
+      if (col.type === DataTypes.ENUM && dbType === DBType.Postgres) {
+        enumTypes.push({ name: getEnumTypeName(col, col.name || key, tableName), values: col.values! });
+      }
     }
 
     if (validators[key]?.includes("required")) {
@@ -156,6 +252,9 @@ export async function generateMigration(
     }
     if (col.defaultValue !== undefined) {
       defParts.push(`DEFAULT ${JSON.stringify(col.defaultValue)}`);
+    } else if (col.version) {
+      // Optimistic locking versions start at 1, also for rows inserted outside the ORM.
+      defParts.push("NOT NULL DEFAULT 1");
     }
     if (col.index) {
       defParts.push(`INDEX ${col.index}`);
@@ -186,14 +285,21 @@ export async function generateMigration(
     }
   }
 
-  const up: string[] = [`CREATE TABLE IF NOT EXISTS ${tableName} (${columnDefs.join(", ")})`];
+  const tableDefs = primaryKey.length > 1
+    ? [...columnDefs, `PRIMARY KEY (${primaryKey.map((key) => columns[key]!.name || key).join(", ")})`]
+    : columnDefs;
+  const up: string[] = [
+    ...enumTypes.map(({ name, values }) => `CREATE TYPE ${name} AS ENUM (${values.map(quoteLiteral).join(", ")})`),
+    `CREATE TABLE IF NOT EXISTS ${tableName} (${tableDefs.join(", ")})`];
   const down: string[] = [`DROP TABLE IF EXISTS ${tableName}`];
 
   if (versioned) {
-    const [historyUp, historyDown] = generateHistoryMigration(tableName, columnDefs, dbType);
+    const hasVersionColumn = Object.entries(columns).some(([key, col]) => (col.name || key) === "version");
+    const [historyUp, historyDown] = generateHistoryMigration(tableName, columnDefs, dbType, hasVersionColumn);
     up.push(historyUp);
     down.push(historyDown);
   }
+  down.push(...enumTypes.map(({ name }) => `DROP TYPE IF EXISTS ${name}`));
 
   return { up, down, name };
 }
@@ -203,11 +309,14 @@ export async function generateMigration(
  * @param tableName The name of the main table.
  * @param columnDefs The column definitions (from the main table).
  * @param dbType The target database dialect.
+ * @param hasVersionColumn Whether the main table has a `version` column (e.g. an optimistic locking version),
+ * which then also numbers the history rows instead of a separate column.
  */
 function generateHistoryMigration(
   tableName: string,
   columnDefs: string[],
   dbType: DBType,
+  hasVersionColumn: boolean,
 ): [string, string] {
   const historyTable = `${tableName}_history`;
   let opType = "VARCHAR(10) NOT NULL";
@@ -217,9 +326,11 @@ function generateHistoryMigration(
   let modByType = dbType === DBType.MySQL ? "VARCHAR(255)" : "TEXT";
   let modAtType = tsType + (dbType === DBType.Postgres ? " DEFAULT CURRENT_TIMESTAMP" : "");
 
-  // Strip constraints for history columns
+  // Strip constraints for history columns; a record has one history row per version
   function cleanColumnDef(def: string): string {
     return def
+      .replace(/\bSERIAL\b/gi, "INTEGER")
+      .replace(/\s+(AUTOINCREMENT|AUTO_INCREMENT)\b/gi, "")
       .replace(/\s+PRIMARY\s+KEY\b/gi, "")
       .replace(/\s+UNIQUE\b/gi, "");
   }
@@ -227,7 +338,7 @@ function generateHistoryMigration(
   const historyColumns = [
     ...columnDefs.map(cleanColumnDef),
     `operation ${opType}`,
-    `version ${versionType}`,
+    ...(hasVersionColumn ? [] : [`version ${versionType}`]),
     `valid_from ${tsType} NOT NULL`,
     `valid_to ${tsType}`,
     `modified_by ${modByType}`,
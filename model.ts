@@ -6,11 +6,14 @@
 
 import type { QueryBuilder } from './query-builder';
 import { DataTypes, RelationType } from './types';
+import type { IdStrategy } from './utils/ids';
+import type { ValidationRule } from './validation';
+import { serialize } from './serializer';
 
 // Interface for column configuration
 export interface ColumnConfig {
     name?: string;
-    type: DataTypes;
+    type: DataTypes | string; // A DataTypes member, or the name of a type registered with registerColumnType
     length?: number;
     precision?: number;
     scale?: number;
@@ -22,11 +25,46 @@ export interface ColumnConfig {
     minLength?: number;
     maxLength?: number;
     pattern?: RegExp;
+    email?: boolean; // Must be an email address
+    url?: boolean; // Must be an absolute http(s) URL
+    min?: number; // Minimum numeric value
+    max?: number; // Maximum numeric value
     customValidator?: (val: any) => boolean | string;
-    encrypted?: boolean;
+    validate?: ValidationRule | ValidationRule[]; // Custom, possibly async rules such as `unique()`
+    validateIf?: (entity: any) => boolean; // Only validate the column when this returns true. A `required` column with `validateIf` stays nullable in the schema
+    encrypted?: boolean; // Encrypt the value at rest with the built-in `encryptionTransformer`
+    transformer?: ColumnTransformer; // Converts the value on every write (`to`) and read (`from`)
+    primaryKey?: boolean; // Part of the primary key
+    version?: boolean; // Optimistic locking version, checked and incremented on every update
+    values?: readonly string[]; // Allowed values of an ENUM column
+    enumName?: string; // Name of the Postgres type of an ENUM column. Defaults to "<table>_<column>"
+    items?: DataTypes; // Element type of an ARRAY column. Defaults to STRING
+    hidden?: boolean; // Never included when the entity is serialized. `encrypted` columns are hidden unless set to false
+    serializeAs?: string; // Key used for the column when the entity is serialized
+    groups?: readonly string[]; // Only serialized when one of these serialization groups is requested
+}
 
+/**
+ * Converts a column's values between their entity representation and the representation that is stored.
+ * `to` runs before the value is serialized for the database (on create, update, upsert, history rows and
+ * query criteria) and `from` runs after a loaded value is coerced to its JavaScript type. Neither is called for `null`.
+ * @template V The entity value type.
+ * @template S The stored value type.
+ */
+export interface ColumnTransformer<V = any, S = any> {
+    to: (value: V) => S;
+    from: (value: S) => V;
 }
 
+/**
+ * A computed (virtual) field of a model: derived from the entity's columns at load time (`get`),
+ * or selected as a SQL expression (`sql`, optionally coerced to `type`). Computed fields are never persisted.
+ * @template T The entity type.
+ */
+export type ComputedField<T = any> =
+    | { get: (entity: T) => any }
+    | { sql: string; type?: DataTypes };
+
 // Interface for relationship configuration
 export interface RelationConfig {
     type: RelationType;
@@ -35,6 +73,9 @@ export interface RelationConfig {
     foreignKey?: string;
     inverseKey?: string;
     joinTable?: string;
+    hidden?: boolean; // Never included when the entity is serialized
+    serializeAs?: string; // Key used for the relation when the entity is serialized
+    groups?: readonly string[]; // Only serialized when one of these serialization groups is requested
 }
 
 export interface TimestampsConfig {
@@ -42,15 +83,138 @@ export interface TimestampsConfig {
     updatedAt?: string;
 }
 
-// Interface for model configuration
-export interface ModelConfig {
+// Interface for model configuration. `T` is the entity type, inferred by `defineModel`
+export interface ModelConfig<T = any> {
     tableName: string;
+    primaryKey?: string | readonly string[]; // Primary key property (or properties, for composite keys). Defaults to "id"
+    idStrategy?: IdStrategy; // How single-column primary keys are generated. Defaults to "autoincrement"
     versioned?: boolean;
     softDelete?: boolean;
     columns: Record<string, ColumnConfig>;
-    relations?: RelationConfig[];
-    scopes?: Record<string, (qb: QueryBuilder<any>, ...args: any[]) => QueryBuilder<any>>; // Custom query scopes
+    relations?: readonly RelationConfig[];
+    scopes?: Record<string, (qb: QueryBuilder<T>, ...args: any[]) => QueryBuilder<T>>; // Custom query scopes
     timestamps?: TimestampsConfig; // Auto-managed timestamp columns
+    computed?: Record<string, ComputedField<T>>; // Virtual fields derived on load, never persisted
+}
+
+/**
+ * The JavaScript types of custom column types, keyed by the name they are registered under.
+ * Extend it with declaration merging to type the entity properties of custom columns:
+ * `declare module "stabilize-orm" { interface CustomColumnTypes { money: Money } }`.
+ */
+export interface CustomColumnTypes {}
+
+/**
+ * The JavaScript type of a column's values, as hydrated by the repository (see `fromDatabaseValue`).
+ * @template D The column's `DataTypes` value, or the name of a custom column type.
+ */
+export type ColumnValue<D extends DataTypes | string> =
+    D extends keyof CustomColumnTypes ? CustomColumnTypes[D]
+    : D extends string ? any
+    : D extends DataTypes.ENUM ? string
+    : D extends DataTypes.ARRAY ? any[]
+    : D extends DataTypes.STRING | DataTypes.TEXT | DataTypes.UUID | DataTypes.DECIMAL ? string
+    : D extends DataTypes.INTEGER | DataTypes.FLOAT | DataTypes.DOUBLE ? number
+    : D extends DataTypes.BIGINT ? bigint
+    : D extends DataTypes.BOOLEAN ? boolean
+    : D extends DataTypes.DATE | DataTypes.DATETIME ? Date
+    : D extends DataTypes.BLOB ? Buffer
+    : any;
+
+/**
+ * @internal
+ * The JavaScript type of a column's values, using the `values` of `ENUM` columns and the `items` of `ARRAY` columns.
+ */
+type PropertyValue<Col extends ColumnConfig> =
+    Col extends { transformer: { from: (value: any) => infer V } } ? V
+    : Col extends { type: DataTypes.ENUM; values: readonly (infer V)[] } ? V
+    : Col extends { type: DataTypes.ARRAY; items: infer I extends DataTypes } ? ColumnValue<I>[]
+    : Col extends { type: DataTypes.ARRAY } ? string[]
+    : ColumnValue<Col["type"]>;
+
+/**
+ * @internal
+ * The primary key properties of a model: `ModelConfig.primaryKey`, the columns marked `primaryKey`, or `id`.
+ */
+type PrimaryKeyProperties<C extends Record<string, ColumnConfig>, P> =
+    P extends string ? P
+    : P extends readonly (infer K)[] ? K
+    : [{ [K in keyof C]: C[K] extends { primaryKey: true } ? K : never }[keyof C]] extends [never] ? "id"
+    : { [K in keyof C]: C[K] extends { primaryKey: true } ? K : never }[keyof C];
+
+/**
+ * @internal
+ * The properties that are always set on a loaded entity: primary keys and `required` columns without `validateIf`.
+ */
+type RequiredProperties<C extends Record<string, ColumnConfig>, P> =
+    | PrimaryKeyProperties<C, P>
+    | { [K in keyof C]: C[K] extends { required: true } ? C[K] extends { validateIf: Function } ? never : K : never }[keyof C];
+
+/**
+ * @internal
+ * The entity type of a relation's target model.
+ */
+type RelationTarget<R> = R extends { target: () => infer M }
+    ? M extends abstract new (...args: any[]) => infer I ? I : any
+    : never;
+
+/**
+ * @internal
+ * Turns a union of object types into their intersection.
+ */
+type UnionToIntersection<U> = (U extends any ? (value: U) => void : never) extends (value: infer I) => void ? I : never;
+
+/**
+ * @internal
+ * The relation properties of an entity: the related entity (or `null`) for `OneToOne` and `ManyToOne`,
+ * an array of related entities for `OneToMany` and `ManyToMany`. They are only set when loaded.
+ */
+type RelationProperties<R extends readonly RelationConfig[]> = UnionToIntersection<
+    R[number] extends infer Rel
+        ? Rel extends { property: infer K extends string; type: infer Type }
+            ? { [P in K]?: Type extends RelationType.OneToMany | RelationType.ManyToMany ? RelationTarget<Rel>[] : RelationTarget<Rel> | null }
+            : never
+        : never
+>;
+
+/**
+ * @internal
+ * The computed properties of an entity, from their inferred value types. SQL computed fields are typed `any`.
+ */
+type ComputedProperties<V> = {
+    -readonly [K in keyof V]?: unknown extends V[K] ? any : V[K];
+};
+
+/**
+ * The entity type of a model defined with `defineModel`, inferred from its configuration.
+ * Each column becomes a property of its `ColumnValue` type (the union of its `values` for `ENUM` columns, the `from` result of its
+ * `transformer`); primary keys and `required` columns are non-optional, other columns are optional and nullable.
+ * Relations and computed fields become optional typed properties.
+ * @template C The column configuration.
+ * @template R The relation configuration.
+ * @template P The `primaryKey` option.
+ * @template V The value types of the computed fields.
+ */
+export type InferEntity<C extends Record<string, ColumnConfig>, R extends readonly RelationConfig[] = [], P = undefined, V = {}> = {
+    -readonly [K in keyof C as K extends RequiredProperties<C, P> ? K : never]: PropertyValue<C[K]>;
+} & {
+    -readonly [K in keyof C as K extends RequiredProperties<C, P> ? never : K]?: PropertyValue<C[K]> | null;
+} & ([R[number]] extends [never] ? unknown : RelationProperties<R>) & ComputedProperties<V>;
+
+/**
+ * @internal
+ * A relation configuration whose target is a model class, so `defineModel` can infer the related entity type.
+ */
+interface TypedRelationConfig extends RelationConfig {
+    target: () => abstract new (...args: any[]) => any;
+}
+
+/**
+ * A model class created by `defineModel`, whose instances are entities of type `T`.
+ * @template T The entity type.
+ */
+export interface ModelClass<T> {
+    new (data?: Partial<T>): T;
 }
 
 
@@ -107,7 +271,7 @@ export class MetadataStorage {
         const validators: Record<string, string[]> = {};
         for (const [key, col] of Object.entries(columns)) {
             const rules: string[] = [];
-            if (col.required) rules.push('required');
+            if (col.required && !col.validateIf) rules.push('required'); // Conditionally required columns stay nullable
             if (col.unique) rules.push('unique');
             validators[key] = rules;
         }
@@ -159,37 +323,119 @@ export class MetadataStorage {
         return this.getModelMetadata(model)?.scopes || {};
     }
 
+    /**
+     * Gets the primary key properties of a given model class, from `ModelConfig.primaryKey`,
+     * the columns marked `primaryKey`, or `id` if neither is set.
+     * @param model - The class constructor for the model.
+     * @returns The primary key property names, in key order.
+     */
+    static getPrimaryKey(model: Function): string[] {
+        const config = this.getModelMetadata(model);
+        if (config?.primaryKey) {
+            return typeof config.primaryKey === 'string' ? [config.primaryKey] : [...config.primaryKey];
+        }
+        const keys = Object.entries(config?.columns || {})
+            .filter(([, col]) => col.primaryKey)
+            .map(([key]) => key);
+        return keys.length > 0 ? keys : ['id'];
+    }
+
+    /**
+     * Gets the primary key column names of a given model class.
+     * @param model - The class constructor for the model.
+     * @returns The primary key column names, in key order.
+     */
+    static getPrimaryKeyColumns(model: Function): string[] {
+        const columns = this.getColumns(model);
+        return this.getPrimaryKey(model).map((key) => columns[key]?.name ?? key);
+    }
+
+    /**
+     * Gets the optimistic locking version column of a given model class.
+     * @param model - The class constructor for the model.
+     * @returns The property name of the column marked `version`, or null if none.
+     */
+    static getVersionColumn(model: Function): string | null {
+        const columns = this.getColumns(model);
+        return Object.keys(columns).find((key) => columns[key]!.version) ?? null;
+    }
+
+    /**
+     * Gets the ID generation strategy for a given model class.
+     * @param model - The class constructor for the model.
+     * @returns The ID strategy, `autoincrement` if not set.
+     */
+    static getIdStrategy(model: Function): IdStrategy {
+        return this.getModelMetadata(model)?.idStrategy || 'autoincrement';
+    }
+
     static getTimestamps(model: Function): TimestampsConfig {
         return this.getModelMetadata(model)?.timestamps || {};
     }
+
+    /**
+     * Gets the computed (virtual) fields of a given model class.
+     * @param model - The class constructor for the model.
+     * @returns Record of field names to their computed field configuration.
+     */
+    static getComputed(model: Function): Record<string, ComputedField> {
+        return this.getModelMetadata(model)?.computed || {};
+    }
 }
 
 /**
  * Programmatically defines a model and stores its metadata.
+ * The entity type is inferred from the configuration (see `InferEntity`) and flows through
+ * `Repository`, `QueryBuilder`, scopes and hooks. Use `InstanceType<typeof User>` to name it.
  * @param config - The model configuration object.
  * @returns The dynamically created model class.
  */
-export function defineModel(config: ModelConfig) {
+export function defineModel<
+    const C extends Record<string, ColumnConfig>,
+    const R extends readonly TypedRelationConfig[] = [],
+    const P extends string | readonly string[] | undefined = undefined,
+    V = {},
+>(
+    config: Omit<ModelConfig<InferEntity<C, R, P, V>>, 'columns' | 'relations' | 'primaryKey' | 'computed'> & {
+        columns: C;
+        relations?: R;
+        primaryKey?: P;
+        computed?: { [K in keyof V]: { get: (entity: InferEntity<C, R, P>) => V[K] } | { sql: string; type?: DataTypes } };
+    },
+): ModelClass<InferEntity<C, R, P, V>> {
     class Model {
         /**
          * Constructs a model instance from plain data.
          * @param data - The plain object to assign properties from.
          */
-        constructor(data: any) {
+        constructor(data: any = {}) {
             Object.assign(this, data);
         }
+
+        /**
+         * Serializes the entity without `hidden` and grouped fields, e.g. for `JSON.stringify` and `res.json`.
+         * Use `serialize(entity, { groups })` for other views.
+         * @returns The serialized entity.
+         */
+        toJSON(): Record<string, any> {
+            return serialize(this);
+        }
     }
 
     // Store metadata
     MetadataStorage.setModelMetadata(Model, {
         tableName: config.tableName,
+        primaryKey: config.primaryKey,
+        idStrategy: config.idStrategy,
         versioned: config.versioned || false,
         softDelete: config.softDelete || false,
         columns: config.columns,
         relations: config.relations || [],
         scopes: config.scopes || {},
         timestamps: config.timestamps || {},
+        computed: (config.computed || {}) as Record<string, ComputedField>,
+        hooks: config.hooks,
     });
 
-    return Model;
+    return Model as unknown as ModelClass<InferEntity<C, R, P, V>>;
 }
\ No newline at end of file
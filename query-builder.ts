@@ -7,63 +7,592 @@
 import { DBClient } from "./client";
 import { Cache } from "./cache";
 import { MetadataStorage } from "./model";
-import { StabilizeError } from "./types";
+import { DataTypes, DBType, RelationType, StabilizeError } from "./types";
+import { toDatabaseValue } from "./utils/coercion";
+import { getColumnTransformer } from "./utils/transformers";
+
+/**
+ * Options for `QueryBuilder.cursorPaginate`.
+ */
+export interface CursorPaginationOptions {
+  /** The number of rows to return. */
+  first: number;
+  /** The `endCursor` of the previous page. Omit to start from the beginning. */
+  after?: string | null;
+}
+
+/**
+ * A page of results returned by `QueryBuilder.cursorPaginate`.
+ * @template R The type of the rows.
+ */
+export interface CursorPage<R> {
+  edges: { node: R; cursor: string }[];
+  pageInfo: {
+    hasNextPage: boolean;
+    endCursor: string | null;
+  };
+}
+
+/**
+ * Attaches eager loaded relations to hydrated rows. Supplied by `Repository.find()`.
+ * @param rows The hydrated rows.
+ * @param relations The relation paths requested with `QueryBuilder.with`.
+ * @param client The client the rows were read with.
+ */
+export type RelationLoader = (rows: any[], relations: string[], client: DBClient) => Promise<void>;
+
+/**
+ * The join types that can be used with `QueryBuilder.joinRelation`.
+ */
+export type JoinType = "inner" | "left" | "right";
+
+/**
+ * Which rows of a soft-deleting model a query matches: only live rows (`without`, the default),
+ * live and soft-deleted rows (`with`), or only soft-deleted rows (`only`).
+ */
+export type TrashedMode = "without" | "with" | "only";
+
+/**
+ * The row lock modes supported by `QueryBuilder.forUpdate` and `QueryBuilder.forShare`.
+ */
+export type LockMode = "update" | "share";
+
+/**
+ * What a locking read does when a row is already locked: skip it (`skipLocked`) or fail immediately (`noWait`).
+ * By default it waits for the lock.
+ */
+export type LockWait = "skipLocked" | "noWait";
+
+/**
+ * The SQL aggregate functions supported by `QueryBuilder.aggregate`.
+ */
+export type AggregateFunction = "count" | "sum" | "avg" | "min" | "max";
+
+/**
+ * The row type of a query after an aggregate column has been added to its select list.
+ * @template T The type of the entity being queried.
+ * @template R The current row type of the query.
+ * @template A The alias of the aggregate column.
+ */
+export type AggregateRow<T, R, A extends string> = (R extends T ? Partial<T> : R) & Record<A, number>;
+
+/**
+ * The property names of an entity type, or any string for models whose properties are not declared.
+ * @template T The type of the entity being queried.
+ */
+export type PropertyName<T> = [keyof T] extends [never] ? string : keyof T & string;
+
+/**
+ * The numeric property names of an entity type, or any string for models whose properties are not declared.
+ * @template T The type of the entity being queried.
+ */
+export type NumericPropertyName<T> = [keyof T] extends [never]
+  ? string
+  : { [K in keyof T & string]-?: NonNullable<T[K]> extends number | bigint ? K : never }[keyof T & string];
+
+/**
+ * The row type of a query that selects a list of properties with `QueryBuilder.select([...])`.
+ * @template T The type of the entity being queried.
+ * @template K The selected property names.
+ */
+export type Projection<T, K extends string> = [keyof T] extends [never] ? Record<K, any> : Pick<T, K & keyof T>;
+
+/**
+ * Comparison operators accepted inside an object criteria value.
+ * @template V The type of the property being compared.
+ */
+export interface WhereOperators<V = any> {
+  eq?: V | null;
+  ne?: V | null;
+  gt?: V;
+  gte?: V;
+  lt?: V;
+  lte?: V;
+  in?: V[] | QueryBuilder<any, any>;
+  notIn?: V[] | QueryBuilder<any, any>;
+  like?: string;
+  ilike?: string;
+  between?: [V, V];
+  isNull?: boolean;
+}
+
+/**
+ * An object describing WHERE conditions by property name. Each entry is either a plain value
+ * (equality, or `IS NULL` for `null`) or a `WhereOperators` object. Entries are joined with AND.
+ * Only the entity's properties are accepted; use `QueryBuilder.whereColumns` for other columns.
+ * @template T The type of the entity being queried.
+ */
+export type WhereCriteria<T> = [keyof T] extends [never]
+  ? ColumnCriteria
+  : { [K in keyof T]?: T[K] | null | WhereOperators<T[K]> };
+
+/**
+ * An object describing WHERE conditions by SQL column name (e.g. `posts.title` in a join), with the same
+ * values and operators as `WhereCriteria`. Used by `QueryBuilder.whereColumns` and for untyped models.
+ */
+export type ColumnCriteria = Record<string, any>;
+
+const WHERE_OPERATORS = new Set<string>([
+  "eq", "ne", "gt", "gte", "lt", "lte", "in", "notIn", "like", "ilike", "between", "isNull",
+]);
+
+/**
+ * A callback that receives a fresh `QueryBuilder` and adds conditions to it.
+ * Its conditions are rendered as a single parenthesized group.
+ * @template T The type of the entity being queried.
+ */
+export type WhereGroup<T> = (qb: QueryBuilder<T>) => unknown;
+
+/**
+ * @internal
+ * A WHERE condition whose SQL is rendered at build time, once the target dialect is known.
+ */
+type WhereNode = (dbType?: DBType) => { sql: string; params: any[] };
+
+/**
+ * @internal
+ * A WHERE condition together with how it is combined with the conditions before it.
+ * `wrap` marks conditions (raw SQL, groups) that must be parenthesized when combined with others.
+ */
+interface WhereEntry {
+  connector: "AND" | "OR";
+  negate: boolean;
+  wrap: boolean;
+  node: WhereNode;
+}
+
+/**
+ * @internal
+ * The column types whose `MIN`/`MAX` aggregates are normalised to numbers.
+ */
+const NUMERIC_TYPES = new Set<DataTypes | string>([
+  DataTypes.INTEGER, DataTypes.BIGINT, DataTypes.FLOAT, DataTypes.DOUBLE, DataTypes.DECIMAL,
+]);
+
+/**
+ * @internal
+ * Converts numeric strings and bigints returned by Postgres and MySQL aggregates into numbers.
+ * Values of non-numeric aggregates (e.g. `MIN` over a text or date column) are returned unchanged.
+ * @param value The raw aggregate value.
+ * @param numeric Whether the aggregate is numeric: `count`, `sum`, `avg`, or `min`/`max` over a numeric column.
+ * @returns The normalised value.
+ */
+function normalizeAggregate(value: unknown, numeric: boolean): unknown {
+  if (!numeric) return value;
+  if (typeof value === "bigint") return Number(value);
+  if (typeof value === "string" && value.trim() !== "" && !isNaN(Number(value))) return Number(value);
+  return value;
+}
+
+/**
+ * @internal
+ * Encodes sort key values as an opaque, URL-safe cursor. Dates and bigints are tagged so they decode to the same type.
+ * @param values The sort key values of a row.
+ * @returns The encoded cursor.
+ */
+function encodeCursor(values: unknown[]): string {
+  const tagged = values.map((value) => {
+    if (value instanceof Date) return { $date: value.toISOString() };
+    if (typeof value === "bigint") return { $bigint: value.toString() };
+    return value;
+  });
+  return Buffer.from(JSON.stringify(tagged), "utf8").toString("base64url");
+}
+
+/**
+ * @internal
+ * Decodes a cursor produced by `encodeCursor`.
+ * @param cursor The encoded cursor.
+ * @param length The expected number of sort key values.
+ * @returns The sort key values.
+ * @throws {StabilizeError} If the cursor is malformed or was created for a different sort order.
+ */
+function decodeCursor(cursor: string, length: number): unknown[] {
+  let values: unknown;
+  try {
+    values = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch (error) {
+    throw new StabilizeError("Invalid pagination cursor", "CURSOR_ERROR", error as Error);
+  }
+  if (!Array.isArray(values) || values.length !== length) {
+    throw new StabilizeError("Invalid pagination cursor", "CURSOR_ERROR");
+  }
+  return values.map((value) => {
+    if (value && typeof value === "object" && "$date" in value) return new Date(value.$date);
+    if (value && typeof value === "object" && "$bigint" in value) return BigInt(value.$bigint);
+    return value;
+  });
+}
+
+/**
+ * @internal
+ * Appends an optional alias to a table name.
+ * @param table The table name.
+ * @param alias The optional alias.
+ * @returns `table alias`, or the table name alone.
+ */
+function aliased(table: string, alias?: string): string {
+  return alias ? `${table} ${alias}` : table;
+}
+
+/**
+ * @internal
+ * Quotes a column alias so its case is preserved (Postgres folds unquoted identifiers to lowercase).
+ * @param alias The alias.
+ * @param dbType The target database dialect.
+ * @returns The quoted alias.
+ */
+function quoteAlias(alias: string, dbType?: DBType): string {
+  return dbType === DBType.MySQL ? `\`${alias}\`` : `"${alias}"`;
+}
+
+/**
+ * @internal
+ * Renders a subquery condition such as `EXISTS (...)`.
+ * @param keyword The SQL keyword placed before the subquery.
+ * @param subquery The query builder to render.
+ * @param dbType The target database dialect.
+ * @returns The SQL condition and the subquery's parameters.
+ */
+function renderSubquery(keyword: string, subquery: QueryBuilder<any, any>, dbType?: DBType): { sql: string; params: any[] } {
+  const { query, params } = subquery.build(dbType);
+  return { sql: `${keyword} (${query})`, params };
+}
+
+/**
+ * @internal
+ * Checks whether a criteria value is an operator object rather than a literal value.
+ * @param value The criteria value.
+ * @returns True if every key of the value is a known operator.
+ */
+function isOperatorObject(value: unknown): value is WhereOperators {
+  if (value === null || typeof value !== "object" || Object.getPrototypeOf(value) !== Object.prototype) {
+    return false;
+  }
+  const keys = Object.keys(value);
+  return keys.length > 0 && keys.every((key) => WHERE_OPERATORS.has(key));
+}
 
 /**
  * A fluent interface for building SQL SELECT queries.
  * This class allows for the programmatic and readable construction of queries
  * that can be executed on different database systems via the DBClient.
  * @template T The type of the entity being queried.
+ * @template R The type of the rows returned by the query. Defaults to `T`.
  */
-export class QueryBuilder<T> {
+export class QueryBuilder<T, R = T> {
   private table: string;
   private selectFields: string[] = ["*"];
+  private distinctRows = false;
+  private model?: Function;
+  private client?: DBClient;
   private joins: string[] = [];
-  private whereConditions: string[] = [];
-  private whereParams: any[] = [];
+  private whereConditions: WhereEntry[] = [];
+  private aggregates: { expression: string; alias: string; numeric: boolean }[] = [];
+  private selectSubqueries: { query: QueryBuilder<any, any>; alias: string }[] = [];
+  private fromSubqueryRef: { query: QueryBuilder<any, any>; alias: string } | null = null;
+  private groupByColumns: string[] = [];
+  private havingConditions: { sql: string; params: any[] }[] = [];
   private orderByClause: string | null = null;
   private limitValue: number | null = null;
   private offsetValue: number | null = null;
   private pagination?: { page: number; pageSize: number };
-  private includeTrashed = false;
-  private onlyTrashed = false;
+  private trashed: TrashedMode = "without";
+  private softDeleteColumn: string | null = null;
+  private hydrate?: (row: any, client: DBClient) => any;
+  private eagerRelations: string[] = [];
+  private relationLoader?: RelationLoader;
+  private lockMode: LockMode | null = null;
+  private lockWait: LockWait | null = null;
 
 
   /**
    * Creates an instance of QueryBuilder.
+   * If the model has a soft delete field, soft-deleted rows are excluded from the results unless
+   * `withTrashed` or `onlyTrashed` is called.
    * @param table The name of the main table to query from.
+   * @param model Optional: The model class, used to map property names to column names in object criteria.
+   * @param client Optional: The `DBClient` used when `execute` and the terminal helpers are called without one.
+   * @param hydrate Optional: A function applied to every entity row, with the client it was read with, before it is
+   * returned (e.g. decryption). It is not applied to aggregate rows.
+   * @param relationLoader Optional: The function that attaches the relations requested with `with` to the hydrated rows.
    */
-  constructor(table: string) {
+  constructor(
+    table: string,
+    model?: Function,
+    client?: DBClient,
+    hydrate?: (row: any, client: DBClient) => any,
+    relationLoader?: RelationLoader,
+  ) {
     this.table = table;
+    this.model = model;
+    this.client = client;
+    this.hydrate = hydrate;
+    this.relationLoader = relationLoader;
+    if (model) {
+      const softDeleteField = MetadataStorage.getSoftDeleteField(model);
+      this.softDeleteColumn = softDeleteField ? this.resolveColumn(softDeleteField) : null;
+    }
   }
 
   /**
    * Specifies the columns to select. If not called, all columns (`*`) are selected by default.
-   * @param fields A list of column names to select.
+   * Given an array of property names, the query selects only those properties (mapped to their column names)
+   * and its rows are typed as a `Pick` of the entity. Columns that are not selected are not read or decrypted.
+   * Include the keys needed by relations requested with `with`.
+   * @param fields An array of property names, or a list of column names or SQL expressions.
    * @returns The `QueryBuilder` instance for chaining.
    * @example
    * ```
+   * const contacts = await userRepository.find().select(['id', 'email']).execute(); // Pick<User, 'id' | 'email'>[]
    * queryBuilder.select('id', 'name', 'email');
    * ```
    */
-  select(...fields: string[]): QueryBuilder<T> {
-    this.selectFields = fields.length > 0 ? fields : ["*"];
+  select<K extends PropertyName<T>>(fields: K[]): QueryBuilder<T, Projection<T, K>>;
+  select(...fields: string[]): QueryBuilder<T, R>;
+  select(...fields: (string | string[])[]): QueryBuilder<T, any> {
+    const [first] = fields;
+    const columns = Array.isArray(first) ? first.map((field) => this.resolveColumn(field)) : (fields as string[]);
+    this.selectFields = columns.length > 0 ? columns : ["*"];
+    return this;
+  }
+
+  /**
+   * Removes duplicate rows from the results (`SELECT DISTINCT`). Usually combined with `select`.
+   * `count()` then counts the distinct rows.
+   * @returns The `QueryBuilder` instance for chaining.
+   * @example
+   * ```
+   * const countries = await userRepository.find().select(['country']).distinct().execute();
+   * ```
+   */
+  distinct(): QueryBuilder<T, R> {
+    this.distinctRows = true;
     return this;
   }
 
   /**
    * Adds a WHERE clause to the query. Multiple calls will be joined with AND.
-   * @param condition The SQL condition string with `?` as placeholders.
+   * Accepts either a raw SQL condition with `?` placeholders, an object criteria whose
+   * property names are mapped to column names and whose values are bound as parameters,
+   * or a callback that builds a parenthesized group of conditions.
+   * @param condition The SQL condition string with `?` as placeholders, a `WhereCriteria` object, or a `WhereGroup` callback.
    * @param params The values to substitute for the `?` placeholders.
    * @returns The `QueryBuilder` instance for chaining.
    * @example
    * ```
    * queryBuilder.where('status = ?', 'active').where('age > ?', 21);
+   * queryBuilder.where({ status: 'active', age: { gt: 21 }, role: { in: ['admin', 'editor'] }, deletedAt: null });
+   * queryBuilder.where(qb => qb.where({ role: 'admin' }).orWhere({ role: 'owner' }));
    * ```
    */
-  where(condition: string, ...params: any[]): QueryBuilder<T> {
-    this.whereConditions.push(condition);
-    this.whereParams.push(...params);
+  where(group: WhereGroup<T>): QueryBuilder<T, R>;
+  where(condition: string, ...params: any[]): QueryBuilder<T, R>;
+  where(criteria: WhereCriteria<T>): QueryBuilder<T, R>;
+  where(condition: string | WhereCriteria<T> | WhereGroup<T>, ...params: any[]): QueryBuilder<T, R> {
+    return this.addCondition("AND", false, condition, params);
+  }
+
+  /**
+   * Adds object criteria keyed by SQL column names, joined with AND. Use it for columns that are not
+   * properties of the entity, such as table-qualified columns of a join; `where` only accepts properties.
+   * Values and operators are the same as in `WhereCriteria`. Property names are still mapped to their columns.
+   * @param criteria The criteria object.
+   * @returns The `QueryBuilder` instance for chaining.
+   * @example
+   * ```
+   * userRepository.find().leftJoin('posts', 'posts.author_id = users.id').whereColumns({ 'posts.title': { like: 'ORM%' } });
+   * ```
+   */
+  whereColumns(criteria: ColumnCriteria): QueryBuilder<T, R> {
+    return this.addCondition("AND", false, criteria as WhereCriteria<T>, []);
+  }
+
+  /**
+   * Adds a WHERE clause joined to the previous conditions with OR.
+   * Accepts the same arguments as `where`.
+   * @param condition The SQL condition string with `?` as placeholders, a `WhereCriteria` object, or a `WhereGroup` callback.
+   * @param params The values to substitute for the `?` placeholders.
+   * @returns The `QueryBuilder` instance for chaining.
+   * @example
+   * ```
+   * queryBuilder.where({ status: 'active' }).orWhere('last_login > ?', since);
+   * ```
+   */
+  orWhere(group: WhereGroup<T>): QueryBuilder<T, R>;
+  orWhere(condition: string, ...params: any[]): QueryBuilder<T, R>;
+  orWhere(criteria: WhereCriteria<T>): QueryBuilder<T, R>;
+  orWhere(condition: string | WhereCriteria<T> | WhereGroup<T>, ...params: any[]): QueryBuilder<T, R> {
+    return this.addCondition("OR", false, condition, params);
+  }
+
+  /**
+   * Adds a negated WHERE clause (`NOT (...)`) joined to the previous conditions with AND.
+   * Accepts the same arguments as `where`.
+   * @param condition The SQL condition string with `?` as placeholders, a `WhereCriteria` object, or a `WhereGroup` callback.
+   * @param params The values to substitute for the `?` placeholders.
+   * @returns The `QueryBuilder` instance for chaining.
+   * @example
+   * ```
+   * queryBuilder.where(qb => qb.where({ a: 1 }).orWhere({ b: 2 })).whereNot({ c: 3 });
+   * // WHERE (a = ? OR b = ?) AND NOT (c = ?)
+   * ```
+   */
+  whereNot(group: WhereGroup<T>): QueryBuilder<T, R>;
+  whereNot(condition: string, ...params: any[]): QueryBuilder<T, R>;
+  whereNot(criteria: WhereCriteria<T>): QueryBuilder<T, R>;
+  whereNot(condition: string | WhereCriteria<T> | WhereGroup<T>, ...params: any[]): QueryBuilder<T, R> {
+    return this.addCondition("AND", true, condition, params);
+  }
+
+  /**
+   * Adds a negated WHERE clause (`NOT (...)`) joined to the previous conditions with OR.
+   * Accepts the same arguments as `where`.
+   * @param condition The SQL condition string with `?` as placeholders, a `WhereCriteria` object, or a `WhereGroup` callback.
+   * @param params The values to substitute for the `?` placeholders.
+   * @returns The `QueryBuilder` instance for chaining.
+   */
+  orWhereNot(group: WhereGroup<T>): QueryBuilder<T, R>;
+  orWhereNot(condition: string, ...params: any[]): QueryBuilder<T, R>;
+  orWhereNot(criteria: WhereCriteria<T>): QueryBuilder<T, R>;
+  orWhereNot(condition: string | WhereCriteria<T> | WhereGroup<T>, ...params: any[]): QueryBuilder<T, R> {
+    return this.addCondition("OR", true, condition, params);
+  }
+
+  /**
+   * @internal
+   * Registers a WHERE condition of any supported form.
+   * @param connector How the condition is joined to the previous ones.
+   * @param negate Whether the condition is wrapped in `NOT (...)`.
+   * @param condition The raw SQL string, criteria object, or group callback.
+   * @param params The parameters for a raw SQL condition.
+   * @returns The `QueryBuilder` instance for chaining.
+   */
+  private addCondition(
+    connector: "AND" | "OR",
+    negate: boolean,
+    condition: string | WhereCriteria<T> | WhereGroup<T>,
+    params: any[],
+  ): QueryBuilder<T, R> {
+    if (typeof condition === "string") {
+      this.whereConditions.push({ connector, negate, wrap: true, node: () => ({ sql: condition, params }) });
+    } else if (typeof condition === "function") {
+      const group = new QueryBuilder<T>(this.table, this.model, this.client, this.hydrate);
+      condition(group);
+      this.whereConditions.push({ connector, negate, wrap: true, node: (dbType) => group.renderConditions(dbType) });
+    } else {
+      this.whereConditions.push({ connector, negate, wrap: false, node: (dbType) => this.compileCriteria(condition, dbType) });
+    }
+    return this;
+  }
+
+  /**
+   * @internal
+   * Renders the user-supplied WHERE conditions, without the soft delete filter.
+   * @param dbType The target database dialect.
+   * @returns The combined SQL condition (empty if there are none) and its parameters.
+   */
+  private renderConditions(dbType?: DBType): { sql: string; params: any[] } {
+    let sql = "";
+    const params: any[] = [];
+    const multiple = this.whereConditions.length > 1;
+
+    for (const entry of this.whereConditions) {
+      const rendered = entry.node(dbType);
+      if (!rendered.sql) continue;
+
+      let part = rendered.sql;
+      if (entry.negate) part = `NOT (${part})`;
+      else if (entry.wrap && multiple) part = `(${part})`;
+
+      sql += sql ? ` ${entry.connector} ${part}` : part;
+      params.push(...rendered.params);
+    }
+    return { sql, params };
+  }
+
+  /**
+   * Adds a `column IN (...)` condition joined with AND, using either a list of values or a subquery.
+   * An empty list matches no rows.
+   * @param column The property or column name.
+   * @param values The values to match, or a `QueryBuilder` whose single selected column provides them.
+   * @returns The `QueryBuilder` instance for chaining.
+   * @example
+   * ```
+   * const authors = userRepository.find().whereIn('id', postRepository.find().select('author_id').where({ published: true }));
+   * ```
+   */
+  whereIn(column: string, values: any[] | QueryBuilder<any, any>): QueryBuilder<T, R> {
+    return this.where({ [column]: { in: values } } as WhereCriteria<T>);
+  }
+
+  /**
+   * Adds a `column NOT IN (...)` condition joined with AND, using either a list of values or a subquery.
+   * An empty list matches every row.
+   * @param column The property or column name.
+   * @param values The values to exclude, or a `QueryBuilder` whose single selected column provides them.
+   * @returns The `QueryBuilder` instance for chaining.
+   */
+  whereNotIn(column: string, values: any[] | QueryBuilder<any, any>): QueryBuilder<T, R> {
+    return this.where({ [column]: { notIn: values } } as WhereCriteria<T>);
+  }
+
+  /**
+   * Adds an `EXISTS (...)` condition joined with AND. The subquery may reference the outer table.
+   * @param subquery The `QueryBuilder` to test for rows.
+   * @returns The `QueryBuilder` instance for chaining.
+   * @example
+   * ```
+   * userRepository.find().whereExists(postRepository.find().select('1').where('posts.author_id = users.id'));
+   * ```
+   */
+  whereExists(subquery: QueryBuilder<any, any>): QueryBuilder<T, R> {
+    this.whereConditions.push({ connector: "AND", negate: false, wrap: false, node: (dbType) => renderSubquery("EXISTS", subquery, dbType) });
+    return this;
+  }
+
+  /**
+   * Adds a `NOT EXISTS (...)` condition joined with AND. The subquery may reference the outer table.
+   * @param subquery The `QueryBuilder` to test for rows.
+   * @returns The `QueryBuilder` instance for chaining.
+   */
+  whereNotExists(subquery: QueryBuilder<any, any>): QueryBuilder<T, R> {
+    this.whereConditions.push({ connector: "AND", negate: false, wrap: false, node: (dbType) => renderSubquery("NOT EXISTS", subquery, dbType) });
+    return this;
+  }
+
+  /**
+   * Selects from a subquery (`FROM (...) alias`) instead of the model's table.
+   * Soft delete filtering is left to the subquery.
+   * @param subquery The `QueryBuilder` to select from.
+   * @param alias The alias of the derived table.
+   * @returns The `QueryBuilder` instance for chaining.
+   * @example
+   * ```
+   * const bigSpenders = await orderRepository
+   *   .find()
+   *   .fromSubquery(orderRepository.find().groupBy('customerId').aggregate('sum', 'amount', 'total'), 'totals')
+   *   .where('totals.total > ?', 1000)
+   *   .execute();
+   * ```
+   */
+  fromSubquery(subquery: QueryBuilder<any, any>, alias: string): QueryBuilder<T, R> {
+    this.fromSubqueryRef = { query: subquery, alias };
+    return this;
+  }
+
+  /**
+   * Adds a scalar subquery to the select list (`(...) AS alias`).
+   * @param subquery The `QueryBuilder` producing a single value per row.
+   * @param alias The name of the result column.
+   * @returns The `QueryBuilder` instance for chaining.
+   * @example
+   * ```
+   * userRepository.find().selectSubquery(postRepository.find().aggregate('count', '*', 'n').where('posts.author_id = users.id'), 'postCount');
+   * ```
+   */
+  selectSubquery(subquery: QueryBuilder<any, any>, alias: string): QueryBuilder<T, R> {
+    this.selectSubqueries.push({ query: subquery, alias });
     return this;
   }
 
@@ -71,14 +600,131 @@ export class QueryBuilder<T> {
    * Adds a LEFT JOIN clause to the query.
    * @param table The name of the table to join with.
    * @param condition The ON condition for the join.
+   * @param alias Optional: An alias for the joined table.
    * @returns The `QueryBuilder` instance for chaining.
    * @example
    * ```
    * queryBuilder.join('profiles', 'profiles.userId = users.id');
+   * queryBuilder.join('profiles', 'p.userId = users.id', 'p');
    * ```
    */
-  join(table: string, condition: string): QueryBuilder<T> {
-    this.joins.push(`LEFT JOIN ${table} ON ${condition}`);
+  join(table: string, condition: string, alias?: string): QueryBuilder<T, R> {
+    return this.leftJoin(table, condition, alias);
+  }
+
+  /**
+   * Adds a LEFT JOIN clause to the query. Same as `join`.
+   * @param table The name of the table to join with.
+   * @param condition The ON condition for the join.
+   * @param alias Optional: An alias for the joined table.
+   * @returns The `QueryBuilder` instance for chaining.
+   */
+  leftJoin(table: string, condition: string, alias?: string): QueryBuilder<T, R> {
+    this.joins.push(`LEFT JOIN ${aliased(table, alias)} ON ${condition}`);
+    return this;
+  }
+
+  /**
+   * Adds an INNER JOIN clause to the query.
+   * @param table The name of the table to join with.
+   * @param condition The ON condition for the join.
+   * @param alias Optional: An alias for the joined table.
+   * @returns The `QueryBuilder` instance for chaining.
+   * @example
+   * ```
+   * queryBuilder.innerJoin('orders', 'o.user_id = users.id', 'o');
+   * ```
+   */
+  innerJoin(table: string, condition: string, alias?: string): QueryBuilder<T, R> {
+    this.joins.push(`INNER JOIN ${aliased(table, alias)} ON ${condition}`);
+    return this;
+  }
+
+  /**
+   * Adds a RIGHT JOIN clause to the query. Requires SQLite 3.39 or later on SQLite.
+   * @param table The name of the table to join with.
+   * @param condition The ON condition for the join.
+   * @param alias Optional: An alias for the joined table.
+   * @returns The `QueryBuilder` instance for chaining.
+   */
+  rightJoin(table: string, condition: string, alias?: string): QueryBuilder<T, R> {
+    this.joins.push(`RIGHT JOIN ${aliased(table, alias)} ON ${condition}`);
+    return this;
+  }
+
+  /**
+   * Adds a CROSS JOIN clause to the query.
+   * @param table The name of the table to join with.
+   * @param alias Optional: An alias for the joined table.
+   * @returns The `QueryBuilder` instance for chaining.
+   * @example
+   * ```
+   * queryBuilder.crossJoin('currencies', 'c');
+   * ```
+   */
+  crossJoin(table: string, alias?: string): QueryBuilder<T, R> {
+    this.joins.push(`CROSS JOIN ${aliased(table, alias)}`);
+    return this;
+  }
+
+  /**
+   * Joins the table of a relation defined in the model's `relations`, resolving the ON clause
+   * from its `RelationConfig`. Many-to-many relations join both the join table and the target table.
+   * @param relation The relation property name.
+   * @param options Optional: The join type (defaults to `left`) and an alias for the related table.
+   * @returns The `QueryBuilder` instance for chaining.
+   * @throws {StabilizeError} If the query builder has no model or the relation does not exist.
+   * @example
+   * ```
+   * userRepository.find().joinRelation('roles', { type: 'inner', alias: 'r' }).where('r.name = ?', 'Admin');
+   * ```
+   */
+  joinRelation(relation: string, options: { type?: JoinType; alias?: string } = {}): QueryBuilder<T, R> {
+    const rel = this.model ? MetadataStorage.getRelations(this.model)[relation] : undefined;
+    if (!rel) {
+      throw new StabilizeError(`Relation ${relation} not found`, "RELATION_ERROR");
+    }
+
+    const joinType = options.type ?? "left";
+    const add = (table: string, condition: string, alias?: string) => {
+      if (joinType === "inner") this.innerJoin(table, condition, alias);
+      else if (joinType === "right") this.rightJoin(table, condition, alias);
+      else this.leftJoin(table, condition, alias);
+    };
+
+    const relatedTable = MetadataStorage.getTableName(rel.target());
+    const related = options.alias ?? relatedTable;
+    const owner = this.table;
+    // Relations reference a single-column primary key on each side.
+    const ownerKey = MetadataStorage.getPrimaryKeyColumns(this.model!)[0];
+    const relatedKey = MetadataStorage.getPrimaryKeyColumns(rel.target())[0];
+
+    if (rel.type === RelationType.OneToOne || rel.type === RelationType.ManyToOne) {
+      add(relatedTable, `${owner}.${rel.foreignKey} = ${related}.${relatedKey}`, options.alias);
+    } else if (rel.type === RelationType.OneToMany) {
+      add(relatedTable, `${related}.${rel.inverseKey ?? rel.foreignKey} = ${owner}.${ownerKey}`, options.alias);
+    } else if (rel.type === RelationType.ManyToMany) {
+      add(rel.joinTable!, `${rel.joinTable}.${rel.foreignKey} = ${owner}.${ownerKey}`);
+      add(relatedTable, `${related}.${relatedKey} = ${rel.joinTable}.${rel.inverseKey}`, options.alias);
+    }
+    return this;
+  }
+
+  /**
+   * Eager loads relations into the returned entities. Each relation is fetched with one batched
+   * `IN (...)` query per level and attached under its `RelationConfig.property`: an array for
+   * `OneToMany`/`ManyToMany`, the entity or `null` for `OneToOne`/`ManyToOne`.
+   * Nested relations are given as dotted paths.
+   * @param relations The relation names or paths to load (e.g. `'posts.comments.author'`).
+   * @returns The `QueryBuilder` instance for chaining.
+   * @example
+   * ```
+   * const users = await userRepository.find().with('roles', 'posts.comments.author').execute();
+   * users[0].posts[0].comments[0].author.email;
+   * ```
+   */
+  with(...relations: string[]): QueryBuilder<T, R> {
+    this.eagerRelations.push(...relations);
     return this;
   }
 
@@ -91,11 +737,146 @@ export class QueryBuilder<T> {
    * queryBuilder.orderBy('lastName ASC');
    * ```
    */
-  orderBy(clause: string): QueryBuilder<T> {
+  orderBy(clause: string): QueryBuilder<T, R> {
     this.orderByClause = clause;
     return this;
   }
 
+  /**
+   * Includes soft-deleted rows in the results. Has no effect on models without a soft delete field.
+   * @returns The `QueryBuilder` instance for chaining.
+   * @example
+   * ```
+   * const everyone = await userRepository.find().withTrashed().execute();
+   * ```
+   */
+  withTrashed(): QueryBuilder<T, R> {
+    this.trashed = "with";
+    return this;
+  }
+
+  /**
+   * Restricts the results to soft-deleted rows. Has no effect on models without a soft delete field.
+   * @returns The `QueryBuilder` instance for chaining.
+   * @example
+   * ```
+   * const deleted = await userRepository.find().onlyTrashed().where({ role: 'admin' }).execute();
+   * ```
+   */
+  onlyTrashed(): QueryBuilder<T, R> {
+    this.trashed = "only";
+    return this;
+  }
+
+  /**
+   * Locks the selected rows for update (`SELECT ... FOR UPDATE`) until the transaction ends.
+   * Must be executed with a transaction client (see `DBClient.transaction`). On SQLite, which locks the
+   * whole database for writes, this is a no-op.
+   * @returns The `QueryBuilder` instance for chaining.
+   * @example
+   * ```
+   * await orm.client.transaction(async (tx) => {
+   *   const [item] = await inventoryRepository.find().where({ sku: 'A-1' }).forUpdate().execute(tx);
+   *   await tx.query('UPDATE inventory SET stock = ? WHERE sku = ?', [item.stock - 1, 'A-1']);
+   * });
+   * ```
+   */
+  forUpdate(): QueryBuilder<T, R> {
+    this.lockMode = "update";
+    return this;
+  }
+
+  /**
+   * Locks the selected rows against updates by other transactions (`SELECT ... FOR SHARE`) until the
+   * transaction ends. Must be executed with a transaction client. On SQLite this is a no-op.
+   * @returns The `QueryBuilder` instance for chaining.
+   */
+  forShare(): QueryBuilder<T, R> {
+    this.lockMode = "share";
+    return this;
+  }
+
+  /**
+   * Skips rows locked by other transactions instead of waiting for them (`SKIP LOCKED`).
+   * Implies `forUpdate` if no lock mode was set.
+   * @returns The `QueryBuilder` instance for chaining.
+   * @example
+   * ```
+   * const jobs = await jobRepository.find().where({ status: 'pending' }).limit(10).skipLocked().execute(tx);
+   * ```
+   */
+  skipLocked(): QueryBuilder<T, R> {
+    this.lockMode ??= "update";
+    this.lockWait = "skipLocked";
+    return this;
+  }
+
+  /**
+   * Fails immediately if a selected row is locked by another transaction, instead of waiting (`NOWAIT`).
+   * Implies `forUpdate` if no lock mode was set.
+   * @returns The `QueryBuilder` instance for chaining.
+   */
+  noWait(): QueryBuilder<T, R> {
+    this.lockMode ??= "update";
+    this.lockWait = "noWait";
+    return this;
+  }
+
+  /**
+   * Adds an aggregate column (e.g. `COUNT(*) AS total`) to the select list.
+   * If `select` was not called, the select list consists of the `groupBy` columns and the aggregates.
+   * `count`, `sum` and `avg` values, and `min`/`max` values of numeric properties, are normalised to numbers when the query is executed.
+   * @param fn The aggregate function.
+   * @param column The property or column name to aggregate, or `*` for `count`.
+   * @param alias The name of the result column.
+   * @returns The `QueryBuilder` instance for chaining, typed with the aggregate column.
+   * @example
+   * ```
+   * const totals = await orderRepository
+   *   .find()
+   *   .groupBy('status')
+   *   .aggregate('count', '*', 'orders')
+   *   .aggregate('sum', 'amount', 'revenue')
+   *   .having('SUM(amount) > ?', 1000)
+   *   .execute();
+   * // [{ status: 'paid', orders: 12, revenue: 4250.5 }, ...]
+   * ```
+   */
+  aggregate<A extends string>(fn: AggregateFunction, column: string, alias: A): QueryBuilder<T, AggregateRow<T, R, A>> {
+    const target = column === "*" ? "*" : this.resolveColumn(column);
+    this.aggregates.push({ expression: `${fn.toUpperCase()}(${target})`, alias, numeric: this.isNumericAggregate(fn, column) });
+    return this as unknown as QueryBuilder<T, AggregateRow<T, R, A>>;
+  }
+
+  /**
+   * Adds a GROUP BY clause to the query. Property names are mapped to column names.
+   * @param columns The properties or columns to group by.
+   * @returns The `QueryBuilder` instance for chaining.
+   * @example
+   * ```
+   * queryBuilder.groupBy('status', 'country');
+   * ```
+   */
+  groupBy(...columns: string[]): QueryBuilder<T, R> {
+    this.groupByColumns.push(...columns.map((column) => this.resolveColumn(column)));
+    return this;
+  }
+
+  /**
+   * Adds a HAVING clause to the query. Multiple calls will be joined with AND.
+   * @param condition The SQL condition string with `?` as placeholders.
+   * @param params The values to substitute for the `?` placeholders.
+   * @returns The `QueryBuilder` instance for chaining.
+   * @example
+   * ```
+   * queryBuilder.groupBy('status').having('COUNT(*) > ?', 10);
+   * ```
+   */
+  having(condition: string, ...params: any[]): QueryBuilder<T, R> {
+    this.havingConditions.push({ sql: condition, params });
+    return this;
+  }
+
   /**
    * Adds a LIMIT clause to the query to restrict the number of rows returned.
    * @param limit The maximum number of rows to return.
@@ -105,7 +886,7 @@ export class QueryBuilder<T> {
    * queryBuilder.limit(10);
    * ```
    */
-  limit(limit: number): QueryBuilder<T> {
+  limit(limit: number): QueryBuilder<T, R> {
     this.limitValue = limit;
     return this;
   }
@@ -119,7 +900,7 @@ export class QueryBuilder<T> {
    * queryBuilder.offset(20);
    * ```
    */
-  offset(offset: number): QueryBuilder<T> {
+  offset(offset: number): QueryBuilder<T, R> {
     this.offsetValue = offset;
     return this;
   }
@@ -129,14 +910,38 @@ export class QueryBuilder<T> {
    * This is an internal method, typically called by `execute`.
    * @returns An object containing the final `query` string and `params` array.
    */
-  build(): { query: string; params: any[] } {
-    let query = `SELECT ${this.selectFields.join(", ")} FROM ${this.table}`;
+  build(dbType?: DBType): { query: string; params: any[] } {
+    const params: any[] = [];
+    const selectList = [...this.buildSelectList(dbType)];
+    for (const { query: subquery, alias } of this.selectSubqueries) {
+      const sub = subquery.build(dbType);
+      selectList.push(`(${sub.query}) AS ${quoteAlias(alias, dbType)}`);
+      params.push(...sub.params);
+    }
+
+    let source = this.table;
+    if (this.fromSubqueryRef) {
+      const sub = this.fromSubqueryRef.query.build(dbType);
+      source = `(${sub.query}) ${this.fromSubqueryRef.alias}`;
+      params.push(...sub.params);
+    }
+    let query = `SELECT ${this.distinctRows ? "DISTINCT " : ""}${selectList.join(", ")} FROM ${source}`;
 
     if (this.joins.length > 0) {
       query += " " + this.joins.join(" ");
     }
-    if (this.whereConditions.length > 0) {
-      query += " WHERE " + this.whereConditions.join(" AND ");
+    const conditions = this.buildConditions(dbType);
+    if (conditions.sql) {
+      query += " WHERE " + conditions.sql;
+      params.push(...conditions.params);
+    }
+    if (this.groupByColumns.length > 0) {
+      query += ` GROUP BY ${this.groupByColumns.join(", ")}`;
+    }
+    if (this.havingConditions.length > 0) {
+      const multiple = this.havingConditions.length > 1;
+      query += " HAVING " + this.havingConditions.map((h) => (multiple ? `(${h.sql})` : h.sql)).join(" AND ");
+      params.push(...this.havingConditions.flatMap((h) => h.params));
     }
     if (this.orderByClause) {
       query += ` ORDER BY ${this.orderByClause}`;
@@ -147,16 +952,164 @@ export class QueryBuilder<T> {
     if (this.offsetValue !== null) {
       query += ` OFFSET ${this.offsetValue}`;
     }
-    return { query, params: this.whereParams };
+    if (this.lockMode && dbType !== DBType.SQLite) {
+      query += this.lockMode === "update" ? " FOR UPDATE" : " FOR SHARE";
+      if (this.lockWait) query += this.lockWait === "skipLocked" ? " SKIP LOCKED" : " NOWAIT";
+    }
+    return { query, params };
+  }
+
+  /**
+   * Renders the query's WHERE conditions, including the soft delete filter, without the `WHERE` keyword.
+   * Used by set-based `UPDATE` and `DELETE` statements that target the rows this query selects.
+   * @param dbType Optional: The target database dialect.
+   * @returns The SQL condition (empty if the query matches every row) and its parameters.
+   */
+  buildConditions(dbType?: DBType): { sql: string; params: any[] } {
+    const conditions = this.renderConditions(dbType);
+    const filters: string[] = [];
+    if (this.softDeleteColumn && this.trashed !== "with" && !this.fromSubqueryRef) {
+      filters.push(`${this.softDeleteColumn} ${this.trashed === "only" ? "IS NOT NULL" : "IS NULL"}`);
+    }
+    if (conditions.sql) {
+      // User conditions are grouped so an OR can never bypass the soft delete filter.
+      filters.push(filters.length > 0 ? `(${conditions.sql})` : conditions.sql);
+    }
+    return { sql: filters.join(" AND "), params: conditions.params };
+  }
+
+  /**
+   * @internal
+   * Computes the select list, replacing the default `*` with the grouped columns when aggregates are used.
+   * The model's SQL computed fields are selected with `*` or by name.
+   * @param dbType Optional: The target database dialect, used to quote the aliases of computed fields and aggregates.
+   * @returns The select list entries.
+   */
+  private buildSelectList(dbType?: DBType): string[] {
+    if (this.aggregates.length === 0) {
+      const computed = this.model ? MetadataStorage.getComputed(this.model) : {};
+      const fields = this.selectFields.length === 1 && this.selectFields[0] === "*" ? ["*", ...Object.keys(computed).filter((name) => "sql" in computed[name]!)] : this.selectFields;
+      return fields.map((field) => {
+        const expression = computed[field];
+        return expression && "sql" in expression ? `(${expression.sql}) AS ${quoteAlias(field, dbType)}` : field;
+      });
+    }
+    const isDefaultSelect = this.selectFields.length === 1 && this.selectFields[0] === "*";
+    const base = isDefaultSelect ? this.groupByColumns : this.selectFields;
+    return [...base, ...this.aggregates.map((a) => `${a.expression} AS ${quoteAlias(a.alias, dbType)}`)];
+  }
+
+  /**
+   * @internal
+   * Resolves a property name to its SQL column name using the model's column metadata.
+   * Names that are not model properties (e.g. `users.id`) are returned unchanged.
+   * @param property The property name used in the criteria.
+   * @returns The SQL column name.
+   */
+  private resolveColumn(property: string): string {
+    if (!this.model) return property;
+    const column = MetadataStorage.getColumns(this.model)[property];
+    return column ? column.name ?? property : property;
+  }
+
+  /**
+   * @internal
+   * Compiles an object criteria into a SQL condition and its parameters.
+   * @param criteria The criteria object.
+   * @param dbType The target database dialect, used for dialect-specific operators such as `ilike`.
+   * @returns The SQL condition and the parameters to bind, in placeholder order.
+   */
+  private compileCriteria(criteria: WhereCriteria<T>, dbType?: DBType): { sql: string; params: any[] } {
+    const parts: string[] = [];
+    const params: any[] = [];
+
+    for (const [property, value] of Object.entries(criteria)) {
+      if (value === undefined) continue;
+      const column = this.resolveColumn(property);
+      const config = this.model ? MetadataStorage.getColumns(this.model)[property] : undefined;
+      // Values are transformed and serialized like entity values on write, e.g. Date -> ISO string and boolean -> 1/0 on SQLite.
+      const transformer = config ? getColumnTransformer(config) : undefined;
+      const bind = (v: any) => {
+        const stored = transformer && v !== null && v !== undefined ? transformer.to(v) : v;
+        return config && dbType ? toDatabaseValue(stored, config.type, dbType) : stored;
+      };
+
+      if (!isOperatorObject(value)) {
+        if (value === null) {
+          parts.push(`${column} IS NULL`);
+        } else {
+          parts.push(`${column} = ?`);
+          params.push(bind(value));
+        }
+        continue;
+      }
+
+      for (const [op, operand] of Object.entries(value)) {
+        if (operand === undefined) continue;
+        switch (op) {
+          case "eq":
+            if (operand === null) parts.push(`${column} IS NULL`);
+            else { parts.push(`${column} = ?`); params.push(bind(operand)); }
+            break;
+          case "ne":
+            if (operand === null) parts.push(`${column} IS NOT NULL`);
+            else { parts.push(`${column} <> ?`); params.push(bind(operand)); }
+            break;
+          case "gt": parts.push(`${column} > ?`); params.push(bind(operand)); break;
+          case "gte": parts.push(`${column} >= ?`); params.push(bind(operand)); break;
+          case "lt": parts.push(`${column} < ?`); params.push(bind(operand)); break;
+          case "lte": parts.push(`${column} <= ?`); params.push(bind(operand)); break;
+          case "in":
+          case "notIn": {
+            if (operand instanceof QueryBuilder) {
+              const sub = operand.build(dbType);
+              parts.push(`${column} ${op === "in" ? "IN" : "NOT IN"} (${sub.query})`);
+              params.push(...sub.params);
+              break;
+            }
+            if (!Array.isArray(operand)) {
+              throw new StabilizeError(`Operator ${op} on ${property} expects an array or a QueryBuilder`, "QUERY_ERROR");
+            }
+            if (operand.length === 0) {
+              // An empty IN list matches nothing; an empty NOT IN list matches everything.
+              parts.push(op === "in" ? "1 = 0" : "1 = 1");
+            } else {
+              parts.push(`${column} ${op === "in" ? "IN" : "NOT IN"} (${operand.map(() => "?").join(", ")})`);
+              params.push(...operand.map(bind));
+            }
+            break;
+          }
+          case "like": parts.push(`${column} LIKE ?`); params.push(operand); break;
+          case "ilike":
+            if (dbType === DBType.Postgres) parts.push(`${column} ILIKE ?`);
+            else parts.push(`LOWER(${column}) LIKE LOWER(?)`);
+            params.push(operand);
+            break;
+          case "between":
+            if (!Array.isArray(operand) || operand.length !== 2) {
+              throw new StabilizeError(`Operator between on ${property} expects a [min, max] tuple`, "QUERY_ERROR");
+            }
+            parts.push(`${column} BETWEEN ? AND ?`);
+            params.push(bind(operand[0]), bind(operand[1]));
+            break;
+          case "isNull":
+            parts.push(`${column} ${operand ? "IS NULL" : "IS NOT NULL"}`);
+            break;
+        }
+      }
+    }
+
+    if (parts.length === 0) return { sql: "1 = 1", params };
+    return { sql: parts.join(" AND "), params };
   }
 
   /**
    * Executes the constructed query against the database using the provided client.
    * Handles cache-aside logic if a cache and cacheKey are provided.
-   * @param client The `DBClient` instance to use for executing the query.
+   * @param client Optional: The `DBClient` instance to use. Defaults to the client the query builder was created with.
    * @param cache Optional: The `Cache` instance to use for caching.
    * @param cacheKey Optional: The key to use for getting/setting the result in the cache.
-   * @returns A promise that resolves to an array of results of type `T`.
+   * @returns A promise that resolves to an array of results of type `R`.
    * @example
    * ```
    * const users = await stabilize.getRepository(User)
@@ -167,42 +1120,347 @@ export class QueryBuilder<T> {
    * ```
    */
   async execute(
-    client: DBClient,
+    client?: DBClient,
     cache?: Cache,
     cacheKey?: string,
-  ): Promise<T[]> {
-    const { query, params } = this.build();
+  ): Promise<R[]> {
+    const db = this.resolveClient(client);
+    this.assertLockable(db);
+    const { query, params } = this.build(db.config.type);
 
-    // Attempt to retrieve from cache first (cache-aside read)
-    if (cache && cacheKey) {
-      const cached = await cache.get<T[]>(cacheKey);
-      if (cached) return cached;
+    // Attempt to retrieve from cache first (cache-aside read); locking reads always go to the database.
+    if (cache && cacheKey && !this.lockMode) {
+      const cached = await cache.get<R[]>(cacheKey);
+      if (cached) return this.loadRelations(cached.map((row) => this.hydrateRow(row, db)), db);
     }
 
     // If not in cache, execute query against the database
-    const results = await client.query<T>(query, params);
+    const results = await db.query<R>(query, params);
+    if (this.aggregates.length > 0) {
+      for (const row of results as Record<string, unknown>[]) {
+        for (const { alias, numeric } of this.aggregates) {
+          row[alias] = normalizeAggregate(row[alias], numeric);
+        }
+      }
+    }
 
     // Store the database results in the cache for future requests
-    if (cache && cacheKey && results.length > 0) {
+    if (cache && cacheKey && results.length > 0 && !this.lockMode) {
       await cache.set(cacheKey, results, 60);
     }
 
-    return results;
+    return this.loadRelations(results.map((row) => this.hydrateRow(row, db)), db);
+  }
+
+  /**
+   * Executes the query and yields rows one at a time instead of loading the whole result set into memory.
+   * Uses a server-side cursor on Postgres, a streaming query on MySQL and statement iteration on SQLite.
+   * Rows go through the same hydration as `execute`; relations requested with `with` are loaded per batch.
+   * @param client Optional: The `DBClient` instance to use. Defaults to the client the query builder was created with.
+   * @param options Optional: `batchSize` controls how many rows are fetched per round trip on Postgres.
+   * @returns An async iterable of rows.
+   * @example
+   * ```
+   * for await (const user of userRepository.find().where({ status: 'active' }).stream()) {
+   *   await exportRow(user);
+   * }
+   * ```
+   */
+  async *stream(client?: DBClient, options: { batchSize?: number } = {}): AsyncGenerator<R> {
+    const db = this.resolveClient(client);
+    this.assertLockable(db);
+    const { query, params } = this.build(db.config.type);
+    if (!this.loadsRelations()) {
+      for await (const row of db.stream<R>(query, params, options)) {
+        yield this.hydrateRow(row, db);
+      }
+      return;
+    }
+
+    // Relations are loaded for a batch of rows at a time so each batch costs one query per relation.
+    const batchSize = options.batchSize ?? 100;
+    let batch: R[] = [];
+    for await (const row of db.stream<R>(query, params, options)) {
+      batch.push(this.hydrateRow(row, db));
+      if (batch.length === batchSize) {
+        yield* await this.loadRelations(batch, db);
+        batch = [];
+      }
+    }
+    if (batch.length > 0) yield* await this.loadRelations(batch, db);
+  }
+
+  /**
+   * Allows the query builder to be iterated directly with `for await`, streaming rows with the default client.
+   * @example
+   * ```
+   * for await (const user of userRepository.find()) {
+   *   console.log(user.email);
+   * }
+   * ```
+   */
+  [Symbol.asyncIterator](): AsyncGenerator<R> {
+    return this.stream();
+  }
+
+  /**
+   * Streams the query and passes the rows to a callback in batches of `size`, for batch jobs that must not
+   * load the whole table. The next batch is read only after the callback's promise resolves.
+   * @param size The number of rows per batch.
+   * @param callback The function to call with each batch. Return `false` to stop early.
+   * @param client Optional: The `DBClient` instance to use. Defaults to the client the query builder was created with.
+   * @returns A promise that resolves once every batch has been processed.
+   * @example
+   * ```
+   * await userRepository.find().orderBy('id ASC').chunk(500, async (users) => {
+   *   await mailer.sendNewsletter(users);
+   * });
+   * ```
+   */
+  async chunk(
+    size: number,
+    callback: (rows: R[]) => Promise<void | boolean> | void | boolean,
+    client?: DBClient,
+  ): Promise<void> {
+    if (!Number.isInteger(size) || size <= 0) {
+      throw new StabilizeError("chunk expects a positive integer size", "QUERY_ERROR");
+    }
+    let batch: R[] = [];
+    for await (const row of this.stream(client, { batchSize: size })) {
+      batch.push(row);
+      if (batch.length === size) {
+        const rows = batch;
+        batch = [];
+        if ((await callback(rows)) === false) return;
+      }
+    }
+    if (batch.length > 0) await callback(batch);
+  }
+
+  /**
+   * @internal
+   * Applies the hydration function to an entity row. Aggregate rows are returned unchanged.
+   * @param row The raw row.
+   * @param client The client the row was read with.
+   * @returns The hydrated row.
+   */
+  private hydrateRow(row: any, client: DBClient): R {
+    return this.hydrate && this.aggregates.length === 0 ? this.hydrate(row, client) : row;
+  }
+
+  /**
+   * @internal
+   * Whether relations requested with `with` must be attached to the rows of this query.
+   */
+  private loadsRelations(): boolean {
+    return this.eagerRelations.length > 0 && this.aggregates.length === 0;
+  }
+
+  /**
+   * @internal
+   * Attaches the relations requested with `with` to hydrated rows.
+   * @param rows The hydrated rows.
+   * @param db The client the rows were read with.
+   * @returns The same rows.
+   * @throws {StabilizeError} If relations were requested on a query builder that cannot load them.
+   */
+  private async loadRelations(rows: R[], db: DBClient): Promise<R[]> {
+    if (!this.loadsRelations() || rows.length === 0) return rows;
+    if (!this.relationLoader) {
+      throw new StabilizeError("Relations can only be loaded on queries created by a repository", "RELATION_ERROR");
+    }
+    await this.relationLoader(rows, this.eagerRelations, db);
+    return rows;
+  }
+
+  /**
+   * Executes a `COUNT` over the rows matched by the query, ignoring ORDER BY, LIMIT and OFFSET.
+   * Grouped queries return the number of groups.
+   * @param column Optional: The property or column to count. Defaults to `*`.
+   * @param client Optional: The `DBClient` instance to use. Defaults to the client the query builder was created with.
+   * @returns A promise that resolves to the number of matching rows.
+   * @example
+   * ```
+   * const activeUsers = await userRepository.find().where({ status: 'active' }).count();
+   * ```
+   */
+  async count(column: string = "*", client?: DBClient): Promise<number> {
+    const value = await this.runAggregate("count", column, client);
+    return value === null ? 0 : Number(value);
+  }
+
+  /**
+   * Executes a `SUM` over a column of the rows matched by the query.
+   * @param column The property or column to sum.
+   * @param client Optional: The `DBClient` instance to use. Defaults to the client the query builder was created with.
+   * @returns A promise that resolves to the sum, or `null` if no rows matched.
+   * @example
+   * ```
+   * const revenue = await orderRepository.find().where({ status: 'paid' }).sum('amount');
+   * ```
+   */
+  async sum(column: string, client?: DBClient): Promise<number | null> {
+    return this.runAggregate("sum", column, client) as Promise<number | null>;
+  }
+
+  /**
+   * Executes an `AVG` over a column of the rows matched by the query.
+   * @param column The property or column to average.
+   * @param client Optional: The `DBClient` instance to use. Defaults to the client the query builder was created with.
+   * @returns A promise that resolves to the average, or `null` if no rows matched.
+   */
+  async avg(column: string, client?: DBClient): Promise<number | null> {
+    return this.runAggregate("avg", column, client) as Promise<number | null>;
+  }
+
+  /**
+   * Executes a `MIN` over a column of the rows matched by the query.
+   * @template V The type of the column. Defaults to `number`.
+   * @param column The property or column.
+   * @param client Optional: The `DBClient` instance to use. Defaults to the client the query builder was created with.
+   * @returns A promise that resolves to the smallest value, or `null` if no rows matched.
+   */
+  async min<V = number>(column: string, client?: DBClient): Promise<V | null> {
+    return this.runAggregate("min", column, client) as Promise<V | null>;
+  }
+
+  /**
+   * Executes a `MAX` over a column of the rows matched by the query.
+   * @template V The type of the column. Defaults to `number`.
+   * @param column The property or column.
+   * @param client Optional: The `DBClient` instance to use. Defaults to the client the query builder was created with.
+   * @returns A promise that resolves to the largest value, or `null` if no rows matched.
+   */
+  async max<V = number>(column: string, client?: DBClient): Promise<V | null> {
+    return this.runAggregate("max", column, client) as Promise<V | null>;
+  }
+
+  /**
+   * @internal
+   * Runs a single aggregate over the matched rows and returns its normalised scalar value.
+   * @param fn The aggregate function.
+   * @param column The property or column to aggregate.
+   * @param client Optional: The `DBClient` instance to use.
+   * @returns The aggregate value, or `null` if the database returned none.
+   */
+  private async runAggregate(fn: AggregateFunction, column: string, client?: DBClient): Promise<unknown> {
+    const db = this.resolveClient(client);
+    const inner = this.clone();
+    inner.orderByClause = null;
+    inner.limitValue = null;
+    inner.offsetValue = null;
+    // Aggregates cannot lock rows.
+    inner.lockMode = null;
+    inner.lockWait = null;
+
+    let query: string;
+    let params: any[];
+    if (inner.groupByColumns.length > 0 || inner.distinctRows) {
+      // Aggregate over the groups (or distinct rows) rather than within them.
+      const built = inner.build(db.config.type);
+      const target = column === "*" ? "*" : `grouped.${this.resolveColumn(column)}`;
+      query = `SELECT ${fn.toUpperCase()}(${target}) AS aggregate FROM (${built.query}) grouped`;
+      params = built.params;
+    } else {
+      inner.selectFields = [];
+      inner.aggregates = [];
+      inner.aggregate(fn, column, "aggregate");
+      ({ query, params } = inner.build(db.config.type));
+    }
+
+    const rows = await db.query<{ aggregate: unknown }>(query, params);
+    const value = rows[0]?.aggregate;
+    return value === undefined || value === null ? null : normalizeAggregate(value, this.isNumericAggregate(fn, column));
+  }
+
+  /**
+   * @internal
+   * Decides whether an aggregate's values are numbers: always for `count`, `sum` and `avg`, and for
+   * `min`/`max` when the aggregated property is declared with a numeric `DataTypes` type.
+   * @param fn The aggregate function.
+   * @param column The property or column being aggregated.
+   */
+  private isNumericAggregate(fn: AggregateFunction, column: string): boolean {
+    if (fn !== "min" && fn !== "max") return true;
+    const config = this.model ? MetadataStorage.getColumns(this.model)[column] : undefined;
+    return !!config && NUMERIC_TYPES.has(config.type);
+  }
+
+  /**
+   * Creates an independent copy of the query builder, so that it can be modified without affecting the original.
+   * @returns A new `QueryBuilder` with the same state.
+   * @example
+   * ```
+   * const base = userRepository.find().where({ status: 'active' });
+   * const admins = await base.clone().where({ role: 'admin' }).execute();
+   * ```
+   */
+  clone(): QueryBuilder<T, R> {
+    const copy = new QueryBuilder<T, R>(this.table, this.model, this.client, this.hydrate, this.relationLoader);
+    copy.selectFields = [...this.selectFields];
+    copy.distinctRows = this.distinctRows;
+    copy.joins = [...this.joins];
+    copy.whereConditions = [...this.whereConditions];
+    copy.aggregates = [...this.aggregates];
+    copy.selectSubqueries = [...this.selectSubqueries];
+    copy.fromSubqueryRef = this.fromSubqueryRef;
+    copy.groupByColumns = [...this.groupByColumns];
+    copy.havingConditions = [...this.havingConditions];
+    copy.orderByClause = this.orderByClause;
+    copy.limitValue = this.limitValue;
+    copy.offsetValue = this.offsetValue;
+    copy.pagination = this.pagination;
+    copy.trashed = this.trashed;
+    copy.softDeleteColumn = this.softDeleteColumn;
+    copy.eagerRelations = [...this.eagerRelations];
+    copy.lockMode = this.lockMode;
+    copy.lockWait = this.lockWait;
+    return copy;
+  }
+
+  /**
+   * @internal
+   * Returns the client to execute with, falling back to the one the query builder was created with.
+   * @param client Optional: An explicitly provided client.
+   * @throws {StabilizeError} If no client is available.
+   */
+  private resolveClient(client?: DBClient): DBClient {
+    const db = client || this.client;
+    if (!db) {
+      throw new StabilizeError(`No DBClient available to execute the query on ${this.table}`, "QUERY_ERROR");
+    }
+    return db;
+  }
+
+  /**
+   * @internal
+   * Ensures a locking read runs inside a transaction, where its locks are held until commit.
+   * SQLite is exempt because locking reads are a no-op there.
+   * @param db The client the query will be executed with.
+   * @throws {StabilizeError} If the query locks rows and the client is not a transaction client.
+   */
+  private assertLockable(db: DBClient): void {
+    if (this.lockMode && db.config.type !== DBType.SQLite && !db.isTransactionClient) {
+      throw new StabilizeError(
+        `Locking reads on ${this.table} must be executed with a transaction client`,
+        "LOCK_ERROR",
+      );
+    }
   }
 
   /**
    * Applies a named scope to the current query builder.
    *
-   * This method looks up a scope function by name for the current model (based on the table name),
+   * This method looks up a scope function by name for the model the query builder was created for,
    * then invokes the scope function with the query builder and any additional arguments.
    *
    * @param {string} name - The name of the scope to apply.
    * @param {...any} args - Additional arguments to pass to the scope function.
-   * @throws {StabilizeError} If no model is found for the current table, or if the specified scope does not exist.
-   * @returns {QueryBuilder<T>} The query builder instance after applying the scope.
+   * @throws {StabilizeError} If the query builder was created without a model, or if the specified scope does not exist.
+   * @returns {QueryBuilder<T, R>} The query builder instance after applying the scope.
    */
-  scope(name: string, ...args: any[]): QueryBuilder<T> {
-    const model = Object.values(MetadataStorage['models']).find(m => m.tableName === this.table)?.constructor;
+  scope(name: string, ...args: any[]): QueryBuilder<T, R> {
+    const model = this.model;
     if (!model) throw new StabilizeError(`Model for table ${this.table} not found`, "SCOPE_ERROR");
     const scopes = MetadataStorage.getScopes(model);
     const scopeFn = scopes[name];
@@ -215,7 +1473,7 @@ export class QueryBuilder<T> {
    *
    * @param {number} page - The current page number (starting from 1).
    * @param {number} pageSize - The number of records per page.
-   * @returns {QueryBuilder<T>} The current QueryBuilder instance for chaining.
+   * @returns {QueryBuilder<T, R>} The current QueryBuilder instance for chaining.
    *
    * @example
    * const results = await query
@@ -223,12 +1481,124 @@ export class QueryBuilder<T> {
    *   .paginate(3, 25)
    *   .execute(client);
    */
-  paginate(page: number, pageSize: number): QueryBuilder<T> {
+  paginate(page: number, pageSize: number): QueryBuilder<T, R> {
     this.pagination = { page, pageSize };
     this.limitValue = pageSize;
     this.offsetValue = (page - 1) * pageSize;
     return this;
   }
 
+  /**
+   * Executes the query with keyset (cursor) pagination instead of LIMIT/OFFSET, so that deep pages
+   * stay fast on large tables. The sort keys come from `orderBy` (which may list several columns,
+   * each ASC or DESC); `id` is appended as a tiebreaker if it is not already a sort key.
+   * Sort key columns must not contain NULLs, and a `select` list must include them and the primary key.
+   *
+   * @param {CursorPaginationOptions} options - The page size (`first`) and the cursor to continue `after`.
+   * @param {DBClient} [client] - Optional: The `DBClient` instance to use. Defaults to the client the query builder was created with.
+   * @returns {Promise<CursorPage<R>>} The rows as edges with opaque cursors, and the page info.
+   * @throws {StabilizeError} If `first` is not a positive integer, the cursor is invalid or a sort key column is not selected.
+   *
+   * @example
+   * const page1 = await userRepository.find().orderBy('createdAt DESC').cursorPaginate({ first: 20 });
+   * const page2 = await userRepository
+   *   .find()
+   *   .orderBy('createdAt DESC')
+   *   .cursorPaginate({ first: 20, after: page1.pageInfo.endCursor });
+   */
+  async cursorPaginate(options: CursorPaginationOptions, client?: DBClient): Promise<CursorPage<R>> {
+    const { first, after } = options;
+    if (!Number.isInteger(first) || first <= 0) {
+      throw new StabilizeError("cursorPaginate expects `first` to be a positive integer", "CURSOR_ERROR");
+    }
+    const db = this.resolveClient(client);
+    this.assertLockable(db);
+    const keys = this.parseSortKeys();
+    const page = this.clone();
+
+    // Keep the user's conditions grouped so the keyset condition is ANDed with all of them.
+    page.whereConditions = this.whereConditions.length > 0
+      ? [{ connector: "AND", negate: false, wrap: true, node: (dbType) => this.renderConditions(dbType) }]
+      : [];
+
+    if (after) {
+      const values = decodeCursor(after, keys.length);
+      // (k1 > v1) OR (k1 = v1 AND k2 > v2) OR ... with < for descending keys
+      const branches: string[] = [];
+      const params: any[] = [];
+      keys.forEach((key, i) => {
+        const equalities = keys.slice(0, i).map((prev, j) => {
+          params.push(values[j]);
+          return `${prev.column} = ?`;
+        });
+        params.push(values[i]);
+        const comparison = `${key.column} ${key.direction === "DESC" ? "<" : ">"} ?`;
+        branches.push([...equalities, comparison].join(" AND "));
+      });
+      page.where(`(${branches.join(") OR (")})`, ...params);
+    }
+
+    page.orderByClause = keys.map((key) => `${key.column} ${key.direction}`).join(", ");
+    page.limitValue = first + 1;
+    page.offsetValue = null;
+
+    const { query, params } = page.build(db.config.type);
+    const rows = await db.query<Record<string, unknown>>(query, params);
+    const missing = rows.length > 0 ? keys.filter((key) => !(key.field in rows[0]!)) : [];
+    if (missing.length > 0) {
+      // A cursor without its sort key values would restart or skip rows on the next page.
+      throw new StabilizeError(
+        `cursorPaginate requires the sort key columns in the select list, missing: ${missing.map((key) => key.column).join(", ")}`,
+        "CURSOR_ERROR",
+      );
+    }
+    const hasNextPage = rows.length > first;
+    const edges = rows.slice(0, first).map((row) => ({
+      node: this.hydrateRow(row, db),
+      cursor: encodeCursor(keys.map((key) => row[key.field])),
+    }));
+    await this.loadRelations(edges.map((edge) => edge.node), db);
+
+    return {
+      edges,
+      pageInfo: {
+        hasNextPage,
+        endCursor: edges.length > 0 ? edges[edges.length - 1]!.cursor : null,
+      },
+    };
+  }
+
+  /**
+   * @internal
+   * Parses the ORDER BY clause into sort keys for keyset pagination, adding the primary key columns as a tiebreaker.
+   * @returns The sort keys, each with its SQL column, the row field it is read from, and its direction.
+   * @throws {StabilizeError} If the ORDER BY clause contains expressions other than `column [ASC|DESC]`.
+   */
+  private parseSortKeys(): { column: string; field: string; direction: "ASC" | "DESC" }[] {
+    const keys: { column: string; field: string; direction: "ASC" | "DESC" }[] = [];
+    const clause = this.orderByClause?.trim();
+    if (clause) {
+      for (const part of clause.split(",")) {
+        const match = part.trim().match(/^([\w.]+)(?:\s+(ASC|DESC))?$/i);
+        if (!match) {
+          throw new StabilizeError(`Cannot use "${part.trim()}" as a cursor pagination sort key`, "CURSOR_ERROR");
+        }
+        const column = this.resolveColumn(match[1]!);
+        keys.push({
+          column,
+          field: column.split(".").pop()!,
+          direction: (match[2]?.toUpperCase() as "ASC" | "DESC") || "ASC",
+        });
+      }
+    }
+    const primaryKey = this.model ? MetadataStorage.getPrimaryKeyColumns(this.model) : ["id"];
+    for (const field of primaryKey) {
+      if (!keys.some((key) => key.field === field)) {
+        keys.push({ column: this.fromSubqueryRef ? field : `${this.table}.${field}`, field, direction: "ASC" });
+      }
+    }
+    return keys;
+  }
+
 
 }
\ No newline at end of file
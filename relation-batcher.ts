@@ -0,0 +1,139 @@
+/**
+ * @file relation-batcher.ts
+ * @description Provides a DataLoader-style batcher that coalesces relation lookups into batched queries.
+ * @author ElectronSz
+ */
+
+/**
+ * Loads a relation into a list of entities, attaching the related entities under the relation property.
+ * Supplied by the repository that owns the entities.
+ * @param entities The entities to load the relation for.
+ * @param relation The relation name or dotted path.
+ */
+export type RelationBatchLoader = (entities: any[], relation: string) => Promise<void>;
+
+/**
+ * Options for a `RelationBatcher`.
+ */
+export interface RelationBatcherOptions {
+  /** Whether loaded relations are memoized per entity for the lifetime of the batcher. Defaults to `true`. */
+  cache?: boolean;
+}
+
+interface PendingLoad {
+  entity: object;
+  resolve: (value: any) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Coalesces relation lookups made in the same tick into one batched query per relation,
+ * so resolving `user.posts` for N users costs one `WHERE fk IN (...)` query instead of N.
+ * Create one batcher per request (e.g. in a GraphQL context) with `Repository.createBatcher`.
+ * The loaded entities are returned, not attached to the entity passed in.
+ */
+export class RelationBatcher {
+  private loader: RelationBatchLoader;
+  private cache: WeakMap<object, Map<string, Promise<any>>> | null;
+  private queue: Map<string, PendingLoad[]> = new Map();
+  private scheduled = false;
+
+  /**
+   * Creates an instance of RelationBatcher.
+   * @param loader The function that loads a relation into a batch of entities.
+   * @param options Optional: Batcher options.
+   */
+  constructor(loader: RelationBatchLoader, options: RelationBatcherOptions = {}) {
+    this.loader = loader;
+    this.cache = options.cache === false ? null : new WeakMap();
+  }
+
+  /**
+   * Loads a relation of an entity. Calls made in the same tick are batched per relation.
+   * @param entity The entity whose relation should be loaded.
+   * @param relation The relation name, or a dotted path to also load nested relations.
+   * @returns A promise that resolves to the related entity (or `null`) for `OneToOne`/`ManyToOne`
+   * relations, or an array of related entities for `OneToMany`/`ManyToMany` relations.
+   * @example
+   * ```
+   * const loader = userRepository.createBatcher();
+   * const postsPerUser = await Promise.all(users.map((user) => loader.load(user, 'posts')));
+   * ```
+   */
+  load(entity: object, relation: string): Promise<any> {
+    const memo = this.cache?.get(entity)?.get(relation);
+    if (memo) return memo;
+
+    const promise = new Promise<any>((resolve, reject) => {
+      const pending = this.queue.get(relation) ?? [];
+      pending.push({ entity, resolve, reject });
+      this.queue.set(relation, pending);
+    });
+    if (this.cache) {
+      const entries = this.cache.get(entity) ?? new Map<string, Promise<any>>();
+      entries.set(relation, promise);
+      this.cache.set(entity, entries);
+    }
+    this.schedule();
+    return promise;
+  }
+
+  /**
+   * Loads a relation for several entities in one batch.
+   * @param entities The entities whose relation should be loaded.
+   * @param relation The relation name or dotted path.
+   * @returns A promise that resolves to the loaded value of each entity, in order.
+   */
+  loadMany(entities: object[], relation: string): Promise<any[]> {
+    return Promise.all(entities.map((entity) => this.load(entity, relation)));
+  }
+
+  /**
+   * Forgets memoized results, for an entity or for all entities.
+   * @param entity Optional: The entity to forget. Clears everything if omitted.
+   */
+  clear(entity?: object): void {
+    if (!this.cache) return;
+    if (entity) this.cache.delete(entity);
+    else this.cache = new WeakMap();
+  }
+
+  /**
+   * @internal
+   * Schedules a flush after the current tick, once every synchronous `load` call (e.g. from sibling
+   * GraphQL resolvers) has been queued.
+   */
+  private schedule(): void {
+    if (this.scheduled) return;
+    this.scheduled = true;
+    Promise.resolve().then(() => process.nextTick(() => void this.flush()));
+  }
+
+  /**
+   * @internal
+   * Loads every queued relation with one call to the loader per relation.
+   */
+  private async flush(): Promise<void> {
+    const queue = this.queue;
+    this.queue = new Map();
+    this.scheduled = false;
+
+    await Promise.all([...queue].map(async ([relation, pending]) => {
+      // The loader attaches results to the objects it is given; stand-ins keep the caller's entities untouched.
+      const standIns = new Map<object, any>();
+      for (const { entity } of pending) {
+        if (!standIns.has(entity)) standIns.set(entity, Object.create(entity));
+      }
+      const property = relation.split(".")[0]!;
+      try {
+        await this.loader([...standIns.values()], relation);
+        for (const { entity, resolve } of pending) resolve(standIns.get(entity)[property]);
+      } catch (error) {
+        for (const { entity, reject } of pending) {
+          this.cache?.get(entity)?.delete(relation);
+          reject(error);
+        }
+      }
+    }));
+  }
+}
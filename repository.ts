@@ -7,17 +7,22 @@
 import { Cache } from "./cache";
 import { DBClient } from "./client";
 import { StabilizeLogger, type Logger } from "./logger";
-import { QueryBuilder } from "./query-builder";
+import { QueryBuilder, type WhereCriteria, type NumericPropertyName } from "./query-builder";
 import {
   DataTypes,
   DBType,
   RelationType,
   StabilizeError,
   type CacheConfig,
+  type PrimaryKeyValue,
 } from "./types";
-import { MetadataStorage } from "./model";
+import { MetadataStorage, type ColumnConfig, type ColumnTransformer, type ComputedField } from "./model";
 import { getHooks, type HookType } from "./hooks";
-import { decrypt, encrypt } from "./utils/encryption";
+import { ValidationError, isUniqueColumn, validateEntity, type ValidationOperation, type ValidationResult } from "./validation";
+import { getColumnTransformer } from "./utils/transformers";
+import { fromDatabaseValue, toDatabaseValue } from "./utils/coercion";
+import { generateId, type IdStrategy } from "./utils/ids";
+import { RelationBatcher, type RelationBatcherOptions } from "./relation-batcher";
 
 type VersionOperation = "insert" | "update" | "delete";
 
@@ -34,12 +39,10 @@ export class Repository<T> {
   private columns: Record<string, {
     name: string;
     type: string;
-    minLength?: number;
-    maxLength?: number;
-    pattern?: RegExp;
-    customValidator?: (val: any) => boolean | string;
+    transformer?: ColumnTransformer;
   }>;
-  private validators: Record<string, string[]>;
+  private columnConfigs: Record<string, ColumnConfig>;
+  private computed: Record<string, ComputedField>;
   private relations: Record<
     string,
     {
@@ -51,10 +54,17 @@ export class Repository<T> {
     }
   >;
   private softDeleteField: string | null;
+  private softDeleteColumn: string | null;
+  private primaryKey: string[];
+  private idStrategy: IdStrategy;
+  private versionField: string | null;
+  private propertyByColumn: Record<string, string>;
   private logger: Logger;
   private versioned: boolean;
   private historyTable: string;
   private model: new (...args: any[]) => T;
+  private batcher: RelationBatcher;
+  private clientBatchers: WeakMap<DBClient, RelationBatcher>;
 
   /**
    * Creates an instance of Repository.
@@ -75,9 +85,15 @@ export class Repository<T> {
     this.columns = Object.fromEntries(
       Object.entries(MetadataStorage.getColumns(model)).map(([key, col]) => [
         key,
-        { name: col.name ?? key, type: typeof col.type === 'string' ? col.type : DataTypes[col.type] },
+        {
+          name: col.name ?? key,
+          type: typeof col.type === 'string' ? col.type : DataTypes[col.type],
+          transformer: getColumnTransformer(col),
+        },
       ])
     );
+    this.columnConfigs = MetadataStorage.getColumns(model);
+    this.computed = MetadataStorage.getComputed(model);
     this.relations = Object.fromEntries(
       Object.entries(MetadataStorage.getRelations(model)).map(([key, rel]) => [
         key,
@@ -90,13 +106,21 @@ export class Repository<T> {
         },
       ])
     );
-    this.validators = MetadataStorage.getValidators(model);
+    this.propertyByColumn = Object.fromEntries(
+      Object.entries(this.columns).map(([key, col]) => [col.name, key])
+    );
 
     this.softDeleteField = MetadataStorage.getSoftDeleteField(model);
+    this.softDeleteColumn = this.softDeleteField ? this.columns[this.softDeleteField]?.name ?? this.softDeleteField : null;
+    this.primaryKey = MetadataStorage.getPrimaryKey(model);
+    this.idStrategy = MetadataStorage.getIdStrategy(model);
+    this.versionField = MetadataStorage.getVersionColumn(model);
     this.logger = logger;
     this.versioned = MetadataStorage.isVersioned(model);
     this.historyTable = `${this.table}_history`;
     this.model = model;
+    this.batcher = this.createBatcher(client, { cache: false });
+    this.clientBatchers = new WeakMap();
   }
 
   /**
@@ -111,61 +135,81 @@ export class Repository<T> {
   }
 
   /**
-  * Validates an entity's fields based on predefined validator rules and column constraints.
-  *
-  * @template T - The entity type being validated.
-  * @param {Partial<T>} entity - The entity object to validate (can be partial during updates).
-  * @throws {StabilizeError} If any validation rule fails, throws an error with type `"VALIDATION_ERROR"`.
-  *
-  * @description
-  * This method performs multiple levels of validation on entity fields:
-  * If it returns a string, that string is used as the validation error message.
-  *
-  * @example
-  * // Example column definition:
-  * this.columns = {
-  *   username: { minLength: 3, maxLength: 20, pattern: /^[a-z0-9_]+$/i },
-  *   email: { pattern: /^[^@]+@[^@]+\.[^@]+$/ },
-  *   age: { customValidator: (v) => (v >= 18 ? true : "Must be 18 or older") }
-  * };
-  */
-  private validate(entity: Partial<T>) {
-    for (const [key, rules] of Object.entries(this.validators)) {
-      const value = (entity as any)[key];
-
-      //  Required validation
-      if (rules.includes("required") && (value === undefined || value === null)) {
-        throw new StabilizeError(`Field ${key} is required`, "VALIDATION_ERROR");
-      }
-
-      // Skip further checks if field is empty and not required
-      if (value === undefined || value === null) continue;
-
-      const column = this.columns?.[key];
-      if (!column) continue;
-
-      //  Length validation
-      if (column.minLength && typeof value === "string" && value.length < column.minLength) {
-        throw new StabilizeError(`Field ${key} too short`, "VALIDATION_ERROR");
-      }
+   * Validates an entity against the model's column rules without writing it: `required`, `minLength`/`maxLength`,
+   * `min`/`max`, `email`, `url`, enum `values`, `pattern`, `customValidator` and async `validate` rules
+   * (see `ValidationRule`). Every invalid property is reported, with all of its messages.
+   * @param entity The entity or partial entity to validate.
+   * @param options Optional: `operation: "update"` validates only the given properties;
+   * `id` identifies the record being updated, so rules such as `unique()` can exclude it.
+   * On create, generated keys and timestamps are filled in before validation, as they are on insert.
+   * @returns A promise that resolves to whether the entity is valid and the error messages of each invalid property.
+   * @example
+   * ```
+   * const { valid, errors } = await userRepository.validate(req.body);
+   * if (!valid) return res.status(422).json({ errors }); // { email: ['Field email must be a valid email address'] }
+   * ```
+   */
+  async validate(
+    entity: Partial<T>,
+    options: { operation?: ValidationOperation; id?: PrimaryKeyValue } = {},
+  ): Promise<ValidationResult> {
+    const operation = options.operation ?? "create";
+    const current = options.id !== undefined ? this.keyCriteria(options.id) : undefined;
+    const values = operation === "create" ? (this.prepareInsert(entity) as Partial<T>) : entity;
+    const errors = await this.validationErrors(values, operation, this.client, current);
+    return { valid: Object.keys(errors).length === 0, errors };
+  }
 
-      if (column.maxLength && typeof value === "string" && value.length > column.maxLength) {
-        throw new StabilizeError(`Field ${key} too long`, "VALIDATION_ERROR");
-      }
+  /**
+   * @internal
+   * Validates an entity about to be written.
+   * @param entity The entity or partial entity.
+   * @param operation Whether every column (`create`) or only the given properties (`update`) are validated.
+   * @param client The client the entity will be written with; async rules query through it.
+   * @param current Optional: Criteria matching the records being written, if they exist.
+   * @throws {ValidationError} With the messages of every invalid property.
+   */
+  private async assertValid(
+    entity: Partial<T>,
+    operation: ValidationOperation,
+    client: DBClient,
+    current?: Record<string, any>,
+  ): Promise<void> {
+    const errors = await this.validationErrors(entity, operation, client, current);
+    if (Object.keys(errors).length > 0) throw new ValidationError(errors);
+  }
 
-      // Pattern validation
-      if (column.pattern && typeof value === "string" && !column.pattern.test(value)) {
-        throw new StabilizeError(`Field ${key} does not match pattern`, "VALIDATION_ERROR");
-      }
+  /**
+   * @internal
+   * Collects the validation errors of an entity about to be written. An auto-increment key missing on create
+   * is not validated, as the database generates it on insert.
+   * @returns The error messages of each invalid property.
+   */
+  private validationErrors(
+    entity: Partial<T>,
+    operation: ValidationOperation,
+    client: DBClient,
+    current?: Record<string, any>,
+  ): Promise<Record<string, string[]>> {
+    const key = this.primaryKey[0]!;
+    const value = (entity as Record<string, any>)[key];
+    const generated = operation === "create" && this.idStrategy === "autoincrement" && this.primaryKey.length === 1
+      && (value === undefined || value === null);
+    const columns = generated
+      ? Object.fromEntries(Object.entries(this.columnConfigs).filter(([field]) => field !== key))
+      : this.columnConfigs;
+    return validateEntity(columns, { entity, operation, repository: this, client, current });
+  }
 
-      // Custom validator
-      if (typeof column.customValidator === "function") {
-        const result = column.customValidator(value);
-        if (result !== true) {
-          throw new StabilizeError(result as string, "VALIDATION_ERROR");
-        }
-      }
-    }
+  /**
+   * @internal
+   * Converts a primary key value to criteria matching the record.
+   * @param id The key value, or an object of key properties (composite keys).
+   */
+  private keyCriteria(id: PrimaryKeyValue): Record<string, any> {
+    return Object.fromEntries(
+      this.primaryKey.map((key) => [key, typeof id === "object" && id !== null ? (id as Record<string, any>)[key] : id]),
+    );
   }
 
 
@@ -182,19 +226,24 @@ export class Repository<T> {
 
   /**
    * Creates a new `QueryBuilder` instance for the repository's table.
-   * Automatically adds a `WHERE` clause to exclude soft-deleted records if applicable.
+   * Soft-deleted records are automatically excluded if the model has a soft delete field.
+   * Rows returned by the query builder (via `execute`, `stream` or `cursorPaginate`) are hydrated by the repository,
+   * which also loads the relations requested with `QueryBuilder.with`.
    * @returns A `QueryBuilder` instance for constructing a query.
    * @example
    * ```
    * const activeUsersQuery = userRepository.find().where('status = ?', 'active');
+   * const adultsQuery = userRepository.find().where({ age: { gte: 18 } });
    * ```
    */
   find(): QueryBuilder<T> {
-    const qb = new QueryBuilder<T>(this.table);
-    if (this.softDeleteField) {
-      qb.where(`${this.softDeleteField} IS NULL`);
-    }
-    return qb;
+    return new QueryBuilder<T>(
+      this.table,
+      this.model,
+      this.client,
+      (row, client) => this.processForLoad(row, client),
+      (rows, relations, client) => this.loadRelations(rows, relations, client),
+    );
   }
 
   /**
@@ -213,99 +262,280 @@ export class Repository<T> {
   }
 
   /**
-   * Finds a single record by its primary key (id).
-   * @param id The ID of the record to find.
-   * @param options Optional: Specify relations to load.
+   * Finds a single record by its primary key.
+   * @param id The primary key value, or an object of key properties for composite keys.
+   * @param options Optional: Relations to eager load, including nested paths such as `'posts.comments'`,
+   * and `withTrashed` to also find a soft-deleted record.
    * @param _client Optional: An internal client for transactions.
    * @returns A promise that resolves to the entity or `null` if not found.
    * @example
    * ```
-   * const user = await userRepository.findOne(1);
+   * const user = await userRepository.findOne(1, { relations: ['roles', 'posts.comments.author'] });
    * ```
    */
   async findOne(
-    id: number | string,
-    options: { relations?: string[] } = {},
+    id: PrimaryKeyValue,
+    options: { relations?: string[]; withTrashed?: boolean } = {},
     _client?: DBClient,
   ): Promise<T | null> {
     const client = _client || this.client;
     const start = performance.now();
-    this.logger.logDebug(`Finding one ${this.table} with ID ${id}`);
-    const queryBuilder = this.find().where("id = ?", id).limit(1);
-    if (options.relations) {
-      for (const rel of options.relations) {
-        await this.loadRelation(queryBuilder, rel);
-      }
-    }
-    const cacheKey = `findOne:${this.table}:${id}:${options.relations?.join(",")}`;
+    const key = this.formatId(id);
+    this.logger.logDebug(`Finding one ${this.table} with ID ${key}`);
+    const { sql, params } = this.whereId(id, client);
+    const queryBuilder = this.find().where(sql, ...params).limit(1).with(...(options.relations ?? []));
+    if (options.withTrashed) queryBuilder.withTrashed();
+    const cacheKey = `findOne:${this.table}:${key}:${options.relations?.join(",")}${options.withTrashed ? ":trashed" : ""}`;
     const results = await queryBuilder.execute(client, this.cache!, cacheKey);
-    const result = this.processForLoad(results);
     this.logger.logDebug(
-      `Found ${this.table} with ID ${id} in ${(performance.now() - start).toFixed(2)}ms`,
+      `Found ${this.table} with ID ${key} in ${(performance.now() - start).toFixed(2)}ms`,
     );
-    return result[0] || null;
+    return results[0] || null;
+  }
+
+  /**
+   * Finds a single record by its primary key, throwing if it does not exist.
+   * @param id The primary key value, or an object of key properties for composite keys.
+   * @param options Optional: Relations to eager load.
+   * @param _client Optional: An internal client for transactions.
+   * @returns A promise that resolves to the entity.
+   * @throws StabilizeError with code `NOT_FOUND` if no record has the key.
+   * @example
+   * ```
+   * const user = await userRepository.findOneOrFail(1);
+   * ```
+   */
+  async findOneOrFail(
+    id: PrimaryKeyValue,
+    options: { relations?: string[] } = {},
+    _client?: DBClient,
+  ): Promise<T> {
+    const result = await this.findOne(id, options, _client);
+    if (!result) throw new StabilizeError(`${this.table} with ID ${this.formatId(id)} not found`, "NOT_FOUND");
+    return result;
+  }
+
+  /**
+   * Finds the records matching object criteria (see `QueryBuilder.where`). Soft-deleted records are excluded.
+   * @param criteria The property values or operators to match.
+   * @param options Optional: Relations to eager load, an ORDER BY clause and a row limit.
+   * @param _client Optional: An internal client for transactions.
+   * @returns A promise that resolves to the matching entities.
+   * @example
+   * ```
+   * const admins = await userRepository.findBy({ role: 'admin', age: { gte: 18 } }, { orderBy: 'name ASC' });
+   * ```
+   */
+  async findBy(
+    criteria: WhereCriteria<T>,
+    options: { relations?: string[]; orderBy?: string; limit?: number } = {},
+    _client?: DBClient,
+  ): Promise<T[]> {
+    const client = _client || this.client;
+    const queryBuilder = this.find().where(criteria).with(...(options.relations ?? []));
+    if (options.orderBy) queryBuilder.orderBy(options.orderBy);
+    if (options.limit !== undefined) queryBuilder.limit(options.limit);
+    return queryBuilder.execute(client, this.cache!, this.criteriaCacheKey(queryBuilder, options.relations, client));
+  }
+
+  /**
+   * Finds the first record matching object criteria. Soft-deleted records are excluded.
+   * @param criteria The property values or operators to match.
+   * @param options Optional: Relations to eager load and an ORDER BY clause deciding which record comes first.
+   * @param _client Optional: An internal client for transactions.
+   * @returns A promise that resolves to the entity or `null` if none matches.
+   * @example
+   * ```
+   * const user = await userRepository.findOneBy({ email: 'lwazicd@icloud.com' });
+   * ```
+   */
+  async findOneBy(
+    criteria: WhereCriteria<T>,
+    options: { relations?: string[]; orderBy?: string } = {},
+    _client?: DBClient,
+  ): Promise<T | null> {
+    const [result] = await this.findBy(criteria, { ...options, limit: 1 }, _client);
+    return result || null;
+  }
+
+  /**
+   * Checks whether any record matches object criteria. Soft-deleted records are excluded.
+   * @param criteria Optional: The property values or operators to match. Matches every record if omitted.
+   * @param _client Optional: An internal client for transactions.
+   * @returns A promise that resolves to true if a record matches.
+   * @example
+   * ```
+   * if (await userRepository.exists({ email })) throw new Error('Email taken');
+   * ```
+   */
+  async exists(criteria: WhereCriteria<T> = {}, _client?: DBClient): Promise<boolean> {
+    const client = _client || this.client;
+    const columns = this.primaryKey.map((key) => this.columns[key]?.name ?? key);
+    const rows = await this.find().select(...columns).where(criteria).limit(1).execute(client);
+    return rows.length > 0;
+  }
+
+  /**
+   * Counts the records matching object criteria. Soft-deleted records are excluded.
+   * @param criteria Optional: The property values or operators to match. Counts every record if omitted.
+   * @param _client Optional: An internal client for transactions.
+   * @returns A promise that resolves to the number of matching records.
+   * @example
+   * ```
+   * const pending = await orderRepository.count({ status: 'pending' });
+   * ```
+   */
+  async count(criteria: WhereCriteria<T> = {}, _client?: DBClient): Promise<number> {
+    return this.find().where(criteria).count("*", _client || this.client);
+  }
+
+  /**
+   * Returns the first record matching the criteria, or creates one from the criteria and `defaults`.
+   * Criteria must be plain values (not operators) so they can be used for the new record.
+   * If a concurrent request creates the record first (and a unique constraint rejects the insert),
+   * the record it created is returned.
+   * @param criteria The property values identifying the record.
+   * @param defaults Optional: Additional values for a newly created record.
+   * @returns A promise that resolves to the existing or created entity.
+   * @example
+   * ```
+   * const tag = await tagRepository.firstOrCreate({ slug: 'orm' }, { label: 'ORM' });
+   * ```
+   */
+  async firstOrCreate(criteria: Partial<T>, defaults: Partial<T> = {}): Promise<T> {
+    const existing = await this.findOneBy(criteria as WhereCriteria<T>);
+    if (existing) return existing;
+    const [result] = await this.createOrFind(criteria, { ...criteria, ...defaults });
+    return result;
+  }
+
+  /**
+   * Updates the first record matching the criteria with `values`, or creates one from the criteria and `values`.
+   * Criteria must be plain values (not operators). Hooks run as for `update` and `create`.
+   * @param criteria The property values identifying the record.
+   * @param values The values to set.
+   * @returns A promise that resolves to the updated or created entity.
+   * @example
+   * ```
+   * const setting = await settingRepository.updateOrCreate({ userId: 1, key: 'theme' }, { value: 'dark' });
+   * ```
+   */
+  async updateOrCreate(criteria: Partial<T>, values: Partial<T>): Promise<T> {
+    const existing = await this.findOneBy(criteria as WhereCriteria<T>);
+    if (existing) return this.update(this.idOf(existing)!, values);
+    const [result, created] = await this.createOrFind(criteria, { ...criteria, ...values });
+    // Lost a race to a concurrent create: apply the values to the record it created.
+    return created ? result : this.update(this.idOf(result)!, values);
+  }
+
+  /**
+   * @internal
+   * Creates a record, falling back to the record matching `criteria` if the insert fails because
+   * a concurrent request created it first.
+   * @param criteria The property values identifying the record.
+   * @param entity The data for the new record.
+   * @returns The entity, and whether this call created it.
+   */
+  private async createOrFind(criteria: Partial<T>, entity: Partial<T>): Promise<[T, boolean]> {
+    try {
+      return [await this.create(entity), true];
+    } catch (error) {
+      const existing = await this.findOneBy(criteria as WhereCriteria<T>);
+      if (existing) return [existing, false];
+      throw error;
+    }
+  }
+
+  /**
+   * @internal
+   * Builds the cache key for a criteria query from its SQL and parameters.
+   * @param queryBuilder The query to cache.
+   * @param relations The eager loaded relations, which are not part of the SQL.
+   * @param client The client the query is built for.
+   * @returns The cache key, under the `find:<table>:` prefix invalidated by writes.
+   */
+  private criteriaCacheKey(queryBuilder: QueryBuilder<T>, relations: string[] | undefined, client: DBClient): string {
+    const { query, params } = queryBuilder.build(this.getDBType(client));
+    const serialized = JSON.stringify(params, (_key, value) => (typeof value === "bigint" ? value.toString() : value));
+    return `find:${this.table}:${query}:${serialized}:${relations?.join(",") ?? ""}`;
   }
 
   /**
    * Snapshot query: get record as it was at a point in time.
    */
   async asOf(
-    id: number | string,
+    id: PrimaryKeyValue,
     asOfDate: Date,
     _client?: DBClient
   ): Promise<T | null> {
     if (!this.versioned) throw new StabilizeError("Model is not versioned", "VERSIONING_ERROR");
     const client = _client || this.client;
+    const dbType = this.getDBType(client);
+    const asOf = toDatabaseValue(asOfDate, DataTypes.DATETIME, dbType);
+    const { sql, params } = this.whereId(id, client);
     const rows = await client.query<T>(
-      `SELECT * FROM ${this.historyTable} WHERE id = ? AND valid_from <= ? AND (valid_to IS NULL OR valid_to > ?) ORDER BY version DESC LIMIT 1`,
-      [id, asOfDate, asOfDate]
+      `SELECT * FROM ${this.historyTable} WHERE ${sql} AND valid_from <= ? AND (valid_to IS NULL OR valid_to > ?) ORDER BY version DESC LIMIT 1`,
+      [...params, asOf, asOf]
     );
-    return rows[0] || null;
+    return rows[0] ? this.processForLoad(rows[0], client) : null;
   }
 
   /**
    * Get all history for a record.
    */
   async history(
-    id: number | string,
+    id: PrimaryKeyValue,
     _client?: DBClient
   ): Promise<T[]> {
     if (!this.versioned) throw new StabilizeError("Model is not versioned", "VERSIONING_ERROR");
     const client = _client || this.client;
-    return client.query<T>(
-      `SELECT * FROM ${this.historyTable} WHERE id = ? ORDER BY version ASC`,
-      [id]
+    const { sql, params } = this.whereId(id, client);
+    const rows = await client.query<T>(
+      `SELECT * FROM ${this.historyTable} WHERE ${sql} ORDER BY version ASC`,
+      params
     );
+    return rows.map((row) => this.processForLoad(row, client));
   }
 
   /**
    * Rollback a record to a previous version.
    */
   async rollback(
-    id: number | string,
+    id: PrimaryKeyValue,
     version: number,
     _client?: DBClient
   ): Promise<T> {
     if (!this.versioned) throw new StabilizeError("Model is not versioned", "VERSIONING_ERROR");
     const client = _client || this.client;
     return client.transaction(async (txClient) => {
+      const where = this.whereId(id, txClient);
       const rows = await txClient.query<T>(
-        `SELECT * FROM ${this.historyTable} WHERE id = ? AND version = ? LIMIT 1`,
-        [id, version]
+        `SELECT * FROM ${this.historyTable} WHERE ${where.sql} AND version = ? LIMIT 1`,
+        [...where.params, version]
       );
       if (!rows.length) throw new StabilizeError("Version not found", "ROLLBACK_ERROR");
 
-      const entity = rows[0];
-      const columns = Object.keys(this.columns).filter((c) => c !== "id");
-      const setClause = columns.map((c) => `${this.columns[c]!.name} = ?`).join(", ");
-      const params = columns.map((c) => (entity as any)[c]);
+      const entity = this.processForLoad(rows[0], txClient);
+      const values = this.processForSave(entity, txClient);
+      const columns = Object.keys(this.columns).filter((c) => !this.primaryKey.includes(c) && c !== this.versionField);
+      const assignments = columns.map((c) => `${this.columns[c]!.name} = ?`);
+      // Rolling back is a new change, so the optimistic locking version moves forward.
+      if (this.versionField) {
+        const column = this.columns[this.versionField]!.name;
+        assignments.push(`${column} = ${column} + 1`);
+      }
+      const setClause = assignments.join(", ");
+      const params = columns.map((c) => values[c] ?? null);
 
       await txClient.query(
-        `UPDATE ${this.table} SET ${setClause} WHERE id = ?`,
-        [...params, id]
+        `UPDATE ${this.table} SET ${setClause} WHERE ${where.sql}`,
+        [...params, ...where.params]
       );
-      await this.writeHistory({ ...entity, version: version + 1 }, "update", txClient);
-      return this.findOne(id, {}, txClient) as Promise<T>;
+      const restored = (await this.findOne(id, {}, txClient)) as T;
+      // A model column named `version` already numbers the history rows and was moved forward above.
+      const sharesVersion = Object.values(this.columns).some((c) => c.name === "version");
+      await this.writeHistory(sharesVersion ? restored : { ...restored, version: version + 1 }, "update", txClient);
+      return restored;
     });
   }
 
@@ -326,11 +556,13 @@ export class Repository<T> {
 
     const propertyKeys = Object.keys(this.columns);
     const sqlColumnNames = propertyKeys.map((k) => this.columns[k]!.name);
+    // A model column named `version` (e.g. the optimistic locking version) also numbers the history rows.
+    const hasVersionColumn = sqlColumnNames.includes("version");
 
     const historyColumns = [
       ...sqlColumnNames,
       "operation",
-      "version",
+      ...(hasVersionColumn ? [] : ["version"]),
       "valid_from",
       "valid_to",
       "modified_by",
@@ -356,11 +588,12 @@ export class Repository<T> {
       return null;
     }
     const dbType = client.config.type;
-    const values = propertyKeys.map((k) => sanitizeSqlValue(entity[k], dbType));
+    const serialized = this.processForSave(entity, client);
+    const values = propertyKeys.map((k) => serialized[k] ?? null);
     const params = [
       ...values,
       sanitizeSqlValue(operation, dbType),
-      sanitizeSqlValue(entity.version || 1, dbType),
+      ...(hasVersionColumn ? [] : [sanitizeSqlValue(entity.version || 1, dbType)]),
       sanitizeSqlValue(new Date(), dbType),
       sanitizeSqlValue(null, dbType),
       sanitizeSqlValue(user || "system", dbType),
@@ -383,16 +616,22 @@ export class Repository<T> {
   /**
    * Creates a new record in the database within a transaction.
    * @param entity The data for the new record.
-   * @param options Optional: Specify relations to load on the returned entity.
+   * @param options Optional: Relations to load on the returned entity, and relations to `cascade`:
+   * related entities set on those properties are inserted (or updated, when they have an id) in the
+   * same transaction, and many-to-many join rows are written. Nested paths such as `'posts.comments'` are supported.
    * @returns A promise that resolves to the newly created entity.
    * @example
    * ```
    * const newUser = await userRepository.create({ name: 'Ciniso Dlamini', email: 'lwazicd@icloud.com' });
+   * const admin = await userRepository.create(
+   *   { email: 'admin@example.com', profile: { bio: 'Admin' }, roles: [1, { name: 'Auditor' }] },
+   *   { cascade: ['profile', 'roles'] },
+   * );
    * ```
    */
   async create(
     entity: Partial<T>,
-    options: { relations?: string[] } = {},
+    options: { relations?: string[]; cascade?: string[] } = {},
   ): Promise<T> {
     return this.client.transaction(async (txClient) => {
       const instance = new (Object.getPrototypeOf(entity).constructor || Object)();
@@ -401,7 +640,12 @@ export class Repository<T> {
       await this.runHooks(instance, "beforeCreate");
       await this.runHooks(instance, "beforeSave");
 
-      const result = await this._create(entity, options, txClient);
+      const cascade = groupPaths(options.cascade ?? []);
+      const data = { ...entity } as Record<string, any>;
+      const owned = await this.cascadeOwned(data, cascade, txClient);
+      const result = await this._create(data as Partial<T>, cascade.size > 0 ? {} : options, txClient);
+      await this.cascadeInverse(result, data, owned, cascade, txClient);
+      if (cascade.size > 0) await this.loadRelations([result], options.relations ?? [], txClient);
 
       await this.runHooks(result, "afterCreate");
       await this.runHooks(result, "afterSave");
@@ -422,59 +666,63 @@ export class Repository<T> {
   ): Promise<T> {
     const start = performance.now();
     this.logger.logDebug(
-      `Creating ${this.table} with data: ${JSON.stringify(entity)}`,
+      `Creating ${this.table} with data: ${JSON.stringify(entity, (_key, value) => (typeof value === "bigint" ? value.toString() : value))}`,
     );
-    this.validate(entity);
-    const entityToSave = this.processForSave(entity);
-
-    const timestamps = MetadataStorage.getTimestamps((this as any).model || Object);
-    const entityWithTimestamps = { ...entityToSave } as Record<string, any>;
-    if (timestamps.createdAt && !entityWithTimestamps[timestamps.createdAt]) {
-      entityWithTimestamps[timestamps.createdAt] = new Date();
-    }
-    if (timestamps.updatedAt && !entityWithTimestamps[timestamps.updatedAt]) {
-      entityWithTimestamps[timestamps.updatedAt] = new Date();
-    }
+    const entityWithTimestamps = this.prepareInsert(entity);
+    await this.assertValid(entityWithTimestamps as Partial<T>, "create", client);
+    const entityToSave = this.processForSave(entityWithTimestamps, client);
 
-    const keys = Object.keys(entityWithTimestamps).filter((k) => this.columns[k]);
+    const keys = Object.keys(entityToSave).filter((k) => this.columns[k]);
     const columnNames = keys.map((k) => this.columns[k]?.name).join(", ");
     const placeholders = keys.map(() => "?").join(", ");
-    const params = keys.map((k) => (entityWithTimestamps as any)[k]);
+    const params = keys.map((k) => entityToSave[k]);
     let query = `INSERT INTO ${this.table} (${columnNames}) VALUES (${placeholders})`;
 
     let insertedResult: T[] | undefined;
-    let id: number | string | undefined;
+    // Keys given by the caller or generated by the ID strategy identify the record; otherwise the database generates one.
+    let id = this.idOf(entityWithTimestamps);
     const dbType = this.getDBType(client);
 
-    
     if (dbType === DBType.Postgres) {
       query += " RETURNING *";
       insertedResult = await client.query<T>(query, params);
-      id = (insertedResult?.[0] as any)?.id;
+      if (insertedResult[0]) id = this.idOf(this.processForLoad(insertedResult[0], client));
     } else {
       await client.query(query, params);
-      if (dbType === DBType.SQLite) {
-        id = (await client.query<{ id: number }>("SELECT last_insert_rowid() as id"))[0]?.id;
-      } else if (dbType === DBType.MySQL) {
-        const result = await client.query<{ "LAST_INSERT_ID()": number }>("SELECT LAST_INSERT_ID()");
-        id = result[0]?.["LAST_INSERT_ID()"];
+      if (id === undefined && this.primaryKey.length === 1) {
+        if (dbType === DBType.SQLite) {
+          id = (await client.query<{ id: number }>("SELECT last_insert_rowid() as id"))[0]?.id;
+        } else if (dbType === DBType.MySQL) {
+          const result = await client.query<{ "LAST_INSERT_ID()": number }>("SELECT LAST_INSERT_ID()");
+          id = result[0]?.["LAST_INSERT_ID()"];
+        }
       }
     }
 
-    if (!id) throw new StabilizeError("Failed to retrieve inserted ID", "INSERT_ERROR");
+    if (id === undefined || id === null || id === 0) {
+      throw new StabilizeError("Failed to retrieve inserted ID", "INSERT_ERROR");
+    }
 
-    const result = insertedResult?.[0] ?? ((await this.findOne(id, options, client)) as T);
+    let result: T;
+    if (insertedResult?.[0]) {
+      result = this.processForLoad(insertedResult[0], client);
+      await this.loadRelations([result], options.relations ?? [], client);
+    } else {
+      result = (await this.findOne(id, options, client)) as T;
+    }
 
+    const key = this.formatId(id);
     if (this.cache) {
-      const cacheKeys = [`find:${this.table}`, `findOne:${this.table}:${id}`];
+      const cacheKeys = [`find:${this.table}`, `findOne:${this.table}:${key}`];
       await this.cache.invalidate(cacheKeys);
+      await this.cache.invalidatePattern(`find:${this.table}:*`);
       if (this.cache.getStrategy() === "write-through") {
-        await this.cache.set(`findOne:${this.table}:${id}`, [result], 60);
+        await this.cache.set(`findOne:${this.table}:${key}`, [result], 60);
       }
     }
 
     this.logger.logDebug(
-      `Created ${this.table} with ID ${id} in ${(performance.now() - start).toFixed(2)}ms`,
+      `Created ${this.table} with ID ${key} in ${(performance.now() - start).toFixed(2)}ms`,
     );
     return result;
   }
@@ -536,14 +784,9 @@ export class Repository<T> {
     if (!entities.length) return [];
 
     const batchSize = options.batchSize || 1000;
-    entities.forEach((entity) => this.validate(entity));
-
-    const timestamps = MetadataStorage.getTimestamps((this as any).model || Object);
-    const entitiesWithTimestamps = entities.map(entity => ({
-      ...entity,
-      ...(timestamps.createdAt && !(entity as Record<string, any>)[timestamps.createdAt] ? { [timestamps.createdAt]: new Date() } : {}),
-      ...(timestamps.updatedAt && !(entity as Record<string, any>)[timestamps.updatedAt] ? { [timestamps.updatedAt]: new Date() } : {}),
-    })) as Partial<T>[];
+    const entitiesWithIds = entities.map((entity) => this.prepareInsert(entity));
+    for (const entity of entitiesWithIds) await this.assertValid(entity as Partial<T>, "create", client);
+    const entitiesWithTimestamps = entitiesWithIds.map((entity) => this.processForSave(entity, client)) as Partial<T>[];
 
     const dbType = this.getDBType(client);
     const results: T[] = [];
@@ -553,62 +796,41 @@ export class Repository<T> {
       const keys = Object.keys(batch[0]!).filter((k) => this.columns[k]);
       const columnNames = keys.map((k) => this.columns[k]?.name).join(", ");
 
-      let query: string;
-      let params: any[] = batch.flatMap((entity) =>
+      const params: any[] = batch.flatMap((entity) =>
         keys.map((k) => (entity as any)[k]),
       );
-
-      if (dbType === DBType.Postgres) {
-        let paramIdx = 1;
-        const valuePlaceholders = batch
-          .map(
-            () =>
-              `(${keys.map(() => `$${paramIdx++}`).join(", ")})`
-          )
-          .join(", ");
-        query = `INSERT INTO ${this.table} (${columnNames}) VALUES ${valuePlaceholders} RETURNING *`;
-        const batchResults = await client.query<T>(query, params);
-        const ids = batchResults.map((r) => (r as any).id);
-
-        let finalResults = batchResults;
-        if (ids.length > 0 && batchResults.length === 0) {
-          const queryBuilder = this.find().where(
-            `id IN (${ids.map(() => "?").join(", ")})`,
-            ...ids,
-          );
-          if (options.relations) {
-            for (const rel of options.relations) {
-              await this.loadRelation(queryBuilder, rel);
-            }
-          }
-          finalResults = await queryBuilder.execute(client);
-        }
+      const placeholders = `(${keys.map(() => "?").join(", ")})`;
+      const query = `INSERT INTO ${this.table} (${columnNames}) VALUES ${batch.map(() => placeholders).join(", ")}`;
+
+      if (dbType !== DBType.MySQL) {
+        // Postgres and SQLite return exactly the inserted rows, in insertion order.
+        const batchResults = await client.query<T>(`${query} RETURNING *`, params);
+        const finalResults = batchResults.map((row) => this.processForLoad(row, client));
+        await this.loadRelations(finalResults, options.relations ?? [], client);
         results.push(...finalResults);
       } else {
-        const placeholders = `(${keys.map(() => "?").join(", ")})`;
-        query = `INSERT INTO ${this.table} (${columnNames}) VALUES ${batch.map(() => placeholders).join(", ")}`;
+        let ids = entitiesWithIds.slice(i, i + batchSize).map((entity) => this.idOf(entity));
+        // Explicit keys move the auto-increment counter, so the generated keys of a mixed batch are unknown.
+        if (ids.some((id) => id === undefined) && ids.some((id) => id !== undefined)) {
+          throw new StabilizeError("MySQL bulk creates must give all primary keys or none", "INSERT_ERROR");
+        }
         await client.query(query, params);
-        const ids = (
-          await client.query<{ id: number }>(
-            `SELECT id FROM ${this.table} ORDER BY id DESC LIMIT ?`,
-            [batch.length],
-          )
-        ).map((row) => row.id);
 
-        let batchResults: T[] = [];
-        if (ids.length > 0) {
-          const queryBuilder = this.find().where(
-            `id IN (${ids.map(() => "?").join(", ")})`,
-            ...ids,
-          );
-          if (options.relations) {
-            for (const rel of options.relations) {
-              await this.loadRelation(queryBuilder, rel);
-            }
+        if (ids.some((id) => id === undefined)) {
+          // Auto-increment keys: a multi-row INSERT allocates consecutive values starting at LAST_INSERT_ID().
+          if (this.primaryKey.length !== 1) {
+            throw new StabilizeError("Composite primary keys must be given when bulk creating", "INSERT_ERROR");
           }
-          batchResults = await queryBuilder.execute(client);
+          const [row] = await client.query<{ first: number; step: number }>(
+            "SELECT LAST_INSERT_ID() AS first, @@auto_increment_increment AS step",
+          );
+          ids = batch.map((_, n) => Number(row!.first) + n * Number(row!.step));
         }
-        results.push(...batchResults);
+
+        const queryBuilder = this.whereIds(this.find(), ids as PrimaryKeyValue[], client);
+        queryBuilder.with(...(options.relations ?? []));
+        const byId = new Map((await queryBuilder.execute(client)).map((entity) => [this.formatId(this.idOf(entity)!), entity]));
+        results.push(...ids.flatMap((id) => byId.get(this.formatId(id!)) ?? []));
       }
     }
 
@@ -621,16 +843,19 @@ export class Repository<T> {
   }
 
   /**
-   * Updates a record by its ID within a transaction.
-   * @param id The ID of the record to update.
+   * Updates a record by its primary key within a transaction.
+   * @param id The primary key value, or an object of key properties for composite keys.
    * @param entity An object containing the fields to update.
+   * @param options Optional: Relations to `cascade`, as for `create`. A cascaded many-to-many property
+   * replaces the record's links with the given entities (see `sync`).
    * @returns A promise that resolves to the updated entity.
    * @example
    * ```
    * const updatedUser = await userRepository.update(1, { name: 'Ciniso Dlamini' });
+   * await userRepository.update(1, { roles: [2, 3] }, { cascade: ['roles'] });
    * ```
    */
-  async update(id: number | string, entity: Partial<T>): Promise<T> {
+  async update(id: PrimaryKeyValue, entity: Partial<T>, options: { cascade?: string[] } = {}): Promise<T> {
     return this.client.transaction(async (txClient) => {
       const before = await this.findOne(id, {}, txClient);
       if (!before) throw new StabilizeError("Not found", "UPDATE_ERROR");
@@ -640,13 +865,18 @@ export class Repository<T> {
       await this.runHooks(instance, "beforeUpdate");
       await this.runHooks(instance, "beforeSave");
 
-      const result = await this._update(id, entity, txClient);
+      const cascade = groupPaths(options.cascade ?? []);
+      const data = { ...entity } as Record<string, any>;
+      const owned = await this.cascadeOwned(data, cascade, txClient);
+      const expectedVersion = this.versionField ? (data[this.versionField] ?? (before as any)[this.versionField]) : undefined;
+      const result = await this._update(id, data as Partial<T>, txClient, expectedVersion);
+      await this.cascadeInverse(result, data, owned, cascade, txClient);
 
       await this.runHooks(result, "afterUpdate");
       await this.runHooks(result, "afterSave");
 
       await this.writeHistory(
-        { ...before, ...entity, version: (before as any).version ? (before as any).version + 1 : 1 },
+        { ...before, ...data, version: (before as any).version ? (before as any).version + 1 : 1 },
         "update",
         txClient
       );
@@ -659,13 +889,15 @@ export class Repository<T> {
    * The private implementation for updating a record, executed within a transaction.
    */
   private async _update(
-    id: number | string,
+    id: PrimaryKeyValue,
     entity: Partial<T>,
     client: DBClient,
+    expectedVersion?: number,
   ): Promise<T> {
     const start = performance.now();
-    this.logger.logDebug(`Updating ${this.table} with ID ${id}`);
-    this.validate(entity);
+    const key = this.formatId(id);
+    this.logger.logDebug(`Updating ${this.table} with ID ${key}`);
+    await this.assertValid(entity, "update", client, this.keyCriteria(id));
 
     const timestamps = MetadataStorage.getTimestamps((this as any).model || Object);
     const entityWithTimestamps = { ...entity } as Record<string, any>;;
@@ -673,29 +905,80 @@ export class Repository<T> {
       entityWithTimestamps[timestamps.updatedAt] = new Date();
     }
 
-    const keys = Object.keys(entityWithTimestamps).filter((k) => this.columns[k]);
-    const setClause = keys.map((k) => `${this.columns[k]?.name} = ?`).join(", ");
-    const query = `UPDATE ${this.table} SET ${setClause} WHERE id = ?${this.softDeleteField ? ` AND ${this.softDeleteField} IS NULL` : ""}`;
-    const params = [...keys.map((k) => (entity as any)[k]), id];
-    await client.query(query, params);
+    const values = this.processForSave(entityWithTimestamps, client);
+    await this.updateRow(id, values, expectedVersion, client);
 
     const result = await this.findOne(id, {}, client);
     if (!result) throw new StabilizeError("Failed to find updated record.", "UPDATE_ERROR");
 
     if (this.cache) {
-      const cacheKeys = [`find:${this.table}`, `findOne:${this.table}:${id}`];
+      const cacheKeys = [`find:${this.table}`, `findOne:${this.table}:${key}`];
       await this.cache.invalidate(cacheKeys);
+      await this.cache.invalidatePattern(`find:${this.table}:*`);
       if (this.cache.getStrategy() === "write-through") {
-        await this.cache.set(`findOne:${this.table}:${id}`, [result], 60);
+        await this.cache.set(`findOne:${this.table}:${key}`, [result], 60);
       }
     }
 
     this.logger.logDebug(
-      `Updated ${this.table} with ID ${id} in ${(performance.now() - start).toFixed(2)}ms`,
+      `Updated ${this.table} with ID ${key} in ${(performance.now() - start).toFixed(2)}ms`,
     );
     return result;
   }
 
+  /**
+   * @internal
+   * Writes the changed properties of an already loaded entity, without reading the record before or after.
+   * Used by `EntityManager.flush`, which tracks the changes itself. The entity is updated in place:
+   * its `updatedAt` timestamp is set and its version column, if any, is incremented.
+   * @param entity The loaded entity.
+   * The update hooks only run for entities with changes; properties changed by the `before*` hooks are written too.
+   * @param changes Returns the changed property names; called before and again after the `before*` hooks have run.
+   * @param client The client to execute with (the flush transaction).
+   * @returns A promise that resolves to `true` if a row was written, or `false` if nothing changed.
+   */
+  async updateTracked(entity: T, changes: () => string[], client: DBClient): Promise<boolean> {
+    const id = this.idOf(entity);
+    if (id === undefined) throw new StabilizeError(`Cannot update ${this.table} without a primary key`, "UPDATE_ERROR");
+    const record = entity as Record<string, any>;
+    const changedColumns = () => changes().filter((k) => this.columns[k] && !this.primaryKey.includes(k) && k !== this.versionField);
+    if (changedColumns().length === 0) return false;
+
+    await this.runHooks(entity, "beforeUpdate");
+    await this.runHooks(entity, "beforeSave");
+    const keys = changedColumns();
+    if (keys.length === 0) return false;
+
+    const start = performance.now();
+    const key = this.formatId(id);
+    this.logger.logDebug(`Updating ${this.table} with ID ${key}: ${keys.join(", ")}`);
+
+    const timestamps = MetadataStorage.getTimestamps(this.model);
+    if (timestamps.updatedAt && this.columns[timestamps.updatedAt] && !keys.includes(timestamps.updatedAt)) {
+      record[timestamps.updatedAt] = new Date();
+      keys.push(timestamps.updatedAt);
+    }
+    const changed = Object.fromEntries(keys.map((k) => [k, record[k]])) as Partial<T>;
+    await this.assertValid(changed, "update", client, this.keyCriteria(id));
+
+    await this.updateRow(id, this.processForSave(changed, client), this.versionField ? record[this.versionField] : undefined, client);
+    if (this.versionField) record[this.versionField] = (record[this.versionField] ?? 0) + 1;
+
+    await this.runHooks(entity, "afterUpdate");
+    await this.runHooks(entity, "afterSave");
+    await this.writeHistory({ ...record, version: record.version ? record.version + 1 : 1 }, "update", client);
+
+    if (this.cache) {
+      await this.cache.invalidate([`find:${this.table}`, `findOne:${this.table}:${key}`]);
+      await this.cache.invalidatePattern(`find:${this.table}:*`);
+    }
+
+    this.logger.logDebug(
+      `Updated ${this.table} with ID ${key} in ${(performance.now() - start).toFixed(2)}ms`,
+    );
+    return true;
+  }
+
   /**
    * Updates multiple records based on different conditions.
    * @param updates An array of update operations, each with a `where` and `set` clause.
@@ -713,7 +996,7 @@ export class Repository<T> {
     updates: { where: { condition: string; params: any[] }; set: Partial<T> }[],
     options: { batchSize?: number } = {},
   ): Promise<void> {
-    return this.client.transaction((txClient) =>
+    await this.client.transaction((txClient) =>
       this._bulkUpdate(updates, options, txClient),
     );
   }
@@ -726,26 +1009,29 @@ export class Repository<T> {
     updates: { where: { condition: string; params: any[] }; set: Partial<T> }[],
     options: { batchSize?: number },
     client: DBClient,
-  ): Promise<void> {
+  ): Promise<number> {
     const start = performance.now();
     this.logger.logDebug(
       `Bulk updating ${updates.length} ${this.table} entities`,
     );
-    if (!updates.length) return;
+    if (!updates.length) return 0;
+    let updated = 0;
 
     const batchSize = options.batchSize || 1000;
-    updates.forEach((update) => this.validate(update.set));
+    for (const update of updates) await this.assertValid(update.set, "update", client);
 
     const timestamps = MetadataStorage.getTimestamps((this as any).model || Object);
 
     for (let i = 0; i < updates.length; i += batchSize) {
       const batch = updates.slice(i, i + batchSize);
       for (const update of batch) {
-        const rows = await client.query<{ id: number | string }>(
-          `SELECT id FROM ${this.table} WHERE ${update.where.condition}${this.softDeleteField ? ` AND ${this.softDeleteField} IS NULL` : ""}`,
+        const keyColumns = this.primaryKey.map((k) => this.columns[k]?.name ?? k);
+        const rows = await client.query<Record<string, any>>(
+          `SELECT ${keyColumns.join(", ")} FROM ${this.table} WHERE ${update.where.condition}${this.softDeleteColumn ? ` AND ${this.softDeleteColumn} IS NULL` : ""}`,
           update.where.params,
         );
-        for (const { id } of rows) {
+        for (const row of rows) {
+          const id = this.idOf(this.processForLoad(row, client))!;
           const before = await this.findOne(id, {}, client);
           if (!before) continue;
 
@@ -755,19 +1041,16 @@ export class Repository<T> {
           await this.runHooks(instance, "beforeUpdate");
           await this.runHooks(instance, "beforeSave");
 
-          const updateWithTimestamps = {
+          const updateWithTimestamps = this.processForSave({
             ...update.set,
             ...(timestamps.updatedAt && !(update.set as Record<string, any>)[timestamps.updatedAt] ? { [timestamps.updatedAt]: new Date() } : {}),
-          } as Partial<T>;
+          }, client) as Partial<T>;
 
-          const keys = Object.keys(updateWithTimestamps).filter((k) => this.columns[k]);
-          const setClause = keys.map((k) => `${this.columns[k]?.name} = ?`).join(", ");
-          const query = `UPDATE ${this.table} SET ${setClause} WHERE id = ?${this.softDeleteField ? ` AND ${this.softDeleteField} IS NULL` : ""}`;
-          const params = [
-            ...keys.map((k) => (updateWithTimestamps as any)[k]),
-            id,
-          ];
-          await client.query(query, params);
+          const expectedVersion = this.versionField
+            ? ((update.set as any)[this.versionField] ?? (before as any)[this.versionField])
+            : undefined;
+          await this.updateRow(id, updateWithTimestamps, expectedVersion, client);
+          updated++;
 
           const after = await this.findOne(id, {}, client);
           if (after) {
@@ -793,6 +1076,7 @@ export class Repository<T> {
     this.logger.logDebug(
       `Bulk updated ${updates.length} ${this.table} entities in ${(performance.now() - start).toFixed(2)}ms`,
     );
+    return updated;
   }
 
   /**
@@ -824,32 +1108,34 @@ export class Repository<T> {
     this.logger.logDebug(
       `Upserting ${this.table} with keys: ${keys.join(", ")}`,
     );
-    this.validate(entity);
+    await this.assertValid(entity, "create", client, Object.fromEntries(keys.map((k) => [k, (entity as any)[k]])));
 
     const dbType = this.getDBType(client);
-    const columns = Object.keys(entity).filter((k) => this.columns[k]);
+    // Inserted rows start at version 1; a version given on the entity is the one expected on update.
+    const expectedVersion = this.versionField ? (entity as any)[this.versionField] : undefined;
+    const data = this.versionField ? { ...entity, [this.versionField]: 1 } : entity;
+    const columns = Object.keys(data).filter((k) => this.columns[k]);
     const columnNames = columns.map((k) => this.columns[k]?.name).join(", ");
     const placeholders = columns.map(() => "?").join(", ");
-
-    const updateClause = columns
-      .filter((c) => !keys.includes(c))
-      .map((c) => `${this.columns[c]?.name} = ?`).join(", ");
+    const updateColumns = columns.filter((c) => !keys.includes(c) && c !== this.versionField);
+    const versionColumn = this.versionField ? this.columns[this.versionField]!.name : null;
+    const checksVersion = versionColumn !== null && expectedVersion !== undefined && expectedVersion !== null;
 
     let query: string;
-    const updateParams = columns.filter((c) => !keys.includes(c)).map((k) => (entity as any)[k]);
-    const insertParams = columns.map((k) => (entity as any)[k]);
-    let params = [...insertParams, ...updateParams];
+    const values = this.processForSave(data, client);
+    const insertParams = columns.map((k) => values[k]);
+    let params: any[];
 
     let before: T | null = null;
     let isUpdate = false;
     if (this.versioned && keys.length > 0) {
       const whereClause = keys.map((k) => `${this.columns[k]?.name} = ?`).join(" AND ");
-      const whereParams = keys.map((k) => (entity as any)[k]);
+      const whereParams = keys.map((k) => values[k]);
       const found = await client.query<T>(
         `SELECT * FROM ${this.table} WHERE ${whereClause} LIMIT 1`,
         whereParams
       );
-      before = found[0] || null;
+      before = found[0] ? this.processForLoad(found[0], client) : null;
       isUpdate = !!before;
     }
 
@@ -864,33 +1150,64 @@ export class Repository<T> {
       await this.runHooks(instance, "beforeSave");
     }
 
-    if (dbType === DBType.SQLite) {
-      query = `INSERT INTO ${this.table} (${columnNames}) VALUES (${placeholders}) ON CONFLICT(${keys.map((k) => this.columns[k]!.name).join(", ")}) DO UPDATE SET ${updateClause}`;
-    } else if (dbType === DBType.MySQL) {
-      query = `INSERT INTO ${this.table} (${columnNames}) VALUES (${placeholders}) ON DUPLICATE KEY UPDATE ${updateClause}`;
+    if (dbType === DBType.MySQL) {
+      // ON DUPLICATE KEY UPDATE has no WHERE clause, so each assignment checks the version; the version is assigned last.
+      const assignments = updateColumns.map((c) =>
+        checksVersion ? `${this.columns[c]?.name} = IF(${versionColumn} = ?, ?, ${this.columns[c]?.name})` : `${this.columns[c]?.name} = ?`,
+      );
+      params = [...insertParams, ...updateColumns.flatMap((k) => (checksVersion ? [expectedVersion, values[k]] : [values[k]]))];
+      if (versionColumn) {
+        assignments.push(checksVersion
+          ? `${versionColumn} = IF(${versionColumn} = ?, ${versionColumn} + 1, ${versionColumn})`
+          : `${versionColumn} = ${versionColumn} + 1`);
+        if (checksVersion) params.push(expectedVersion);
+      }
+      query = `INSERT INTO ${this.table} (${columnNames}) VALUES (${placeholders}) ON DUPLICATE KEY UPDATE ${assignments.join(", ")}`;
     } else {
-      const pgUpdateClause = columns
-        .filter((c) => !keys.includes(c))
-        .map((c) => `${this.columns[c]?.name} = EXCLUDED.${this.columns[c]?.name}`).join(", ");
-      query = `INSERT INTO ${this.table} (${columnNames}) VALUES (${placeholders}) ON CONFLICT (${keys.map((k) => this.columns[k]!.name).join(", ")}) DO UPDATE SET ${pgUpdateClause} RETURNING *`;
-      params = insertParams;
+      const assignments = updateColumns.map((c) =>
+        dbType === DBType.Postgres ? `${this.columns[c]?.name} = EXCLUDED.${this.columns[c]?.name}` : `${this.columns[c]?.name} = ?`,
+      );
+      params = dbType === DBType.Postgres ? insertParams : [...insertParams, ...updateColumns.map((k) => values[k])];
+      if (versionColumn) assignments.push(`${versionColumn} = ${this.table}.${versionColumn} + 1`);
+      let condition = "";
+      if (checksVersion) {
+        condition = ` WHERE ${this.table}.${versionColumn} = ?`;
+        params.push(expectedVersion);
+      }
+      query = `INSERT INTO ${this.table} (${columnNames}) VALUES (${placeholders}) ON CONFLICT(${keys.map((k) => this.columns[k]!.name).join(", ")}) DO UPDATE SET ${assignments.join(", ")}${condition}${dbType === DBType.Postgres ? " RETURNING *" : ""}`;
     }
 
-    const results = await client.query<T>(query, params);
-    let id: number | string | undefined = (results[0] as any)?.id || (entity as any).id;
+    let results: T[] = [];
+    let affected: number;
+    if (dbType === DBType.Postgres) {
+      results = await client.query<T>(query, params);
+      affected = results.length;
+    } else {
+      affected = await client.execute(query, params);
+    }
+    if (checksVersion && affected === 0) {
+      throw new StabilizeError(
+        `${this.table} was modified by another transaction (expected version ${expectedVersion})`,
+        "OPTIMISTIC_LOCK_ERROR",
+      );
+    }
+    let id = results[0] ? this.idOf(this.processForLoad(results[0], client)) : this.idOf(entity);
 
-    if (!id && dbType !== DBType.Postgres) {
-      if (dbType === DBType.SQLite) {
-        id = (await client.query<{ id: number }>("SELECT last_insert_rowid() as id"))[0]?.id;
-      } else if (dbType === DBType.MySQL) {
-        const result = await client.query<{ "LAST_INSERT_ID()": number }>("SELECT LAST_INSERT_ID()");
-        id = result[0]?.["LAST_INSERT_ID()"];
-      }
+    if (id === undefined && keys.length > 0) {
+      // The conflict keys identify the upserted row whether it was inserted or updated.
+      const whereClause = keys.map((k) => `${this.columns[k]?.name} = ?`).join(" AND ");
+      const found = await client.query<Record<string, any>>(
+        `SELECT * FROM ${this.table} WHERE ${whereClause} LIMIT 1`,
+        keys.map((k) => values[k]),
+      );
+      id = found[0] ? this.idOf(this.processForLoad(found[0], client)) : undefined;
     }
 
-    if (!id) throw new StabilizeError("Failed to retrieve upserted ID", "UPSERT_ERROR");
+    if (id === undefined) throw new StabilizeError("Failed to retrieve upserted ID", "UPSERT_ERROR");
 
-    const result = results[0] ?? ((await this.findOne(id, {}, client)) as T);
+    const result = results[0]
+      ? this.processForLoad(results[0], client)
+      : ((await this.findOne(id, {}, client)) as T);
 
     if (isUpdate) {
       await this.runHooks(result, "afterUpdate");
@@ -911,111 +1228,387 @@ export class Repository<T> {
     if (this.cache) {
       await this.cache.invalidatePattern(`find:${this.table}:*`);
       if (this.cache.getStrategy() === "write-through") {
-        await this.cache.set(`findOne:${this.table}:${id}`, [result], 60);
+        await this.cache.set(`findOne:${this.table}:${this.formatId(id)}`, [result], 60);
       }
     }
 
     this.logger.logDebug(
-      `Upserted ${this.table} with ID ${id} in ${(performance.now() - start).toFixed(2)}ms`,
+      `Upserted ${this.table} with ID ${this.formatId(id)} in ${(performance.now() - start).toFixed(2)}ms`,
     );
     return result;
   }
 
   /**
-   * Deletes a record by its ID. Performs a soft delete if enabled on the model.
-   * @param id The ID of the record to delete.
-   * @returns A promise that resolves when the operation is complete.
+   * Claims up to `limit` records for a queue worker: locks the next matching rows with
+   * `FOR UPDATE SKIP LOCKED`, applies `set` to them (e.g. a `processing` status) and returns them.
+   * Concurrent workers never claim the same record, and rows locked by another worker are skipped instead of waited on.
+   * Runs in its own transaction unless a transaction client is given. Hooks are not run for the claimed records.
+   * On SQLite, where writes are serialized, no row locks are taken.
+   * @param limit The maximum number of records to claim.
+   * @param options The criteria for claimable records (`where`), their order (`orderBy`) and the values to `set`.
+   * @param _client Optional: A transaction client to claim within.
+   * @returns A promise that resolves to the claimed records, after `set` was applied.
    * @example
    * ```
-   * await userRepository.delete(1);
+   * const jobs = await jobRepository.claim(10, {
+   *   where: { status: 'pending', runAt: { lte: new Date() } },
+   *   orderBy: 'runAt ASC',
+   *   set: { status: 'processing' },
+   * });
    * ```
    */
-  async delete(id: number | string): Promise<void> {
-    return this.client.transaction(async (txClient) => {
-      const before = await this.findOne(id, {}, txClient);
-      if (!before) throw new StabilizeError("Not found", "DELETE_ERROR");
-      await this.runHooks(before, "beforeDelete");
-
-      await this._delete(id, txClient);
+  async claim(
+    limit: number,
+    options: { where?: WhereCriteria<T>; orderBy?: string; set: Partial<T> },
+    _client?: DBClient,
+  ): Promise<T[]> {
+    const client = _client || this.client;
+    return client.transaction(async (txClient) => {
+      const query = this.find().limit(limit).skipLocked();
+      if (options.where) query.where(options.where);
+      if (options.orderBy) query.orderBy(options.orderBy);
 
-      await this.runHooks(before, "afterDelete");
-      await this.writeHistory(before, "delete", txClient);
+      const claimed: T[] = [];
+      for (const entity of await query.execute(txClient)) {
+        claimed.push(await this._update(this.idOf(entity)!, options.set, txClient));
+      }
+      return claimed;
     });
   }
 
   /**
-   * @internal
-   * The private implementation for deleting a record, executed within a transaction.
+   * Updates every record matching object criteria with a single `UPDATE` statement.
+   * `updatedAt` is set and the optimistic locking version is incremented, but hooks and history are skipped
+   * unless `perRow` is set, in which case each record is updated like `bulkUpdate` does.
+   * @param criteria The property values or operators to match (see `QueryBuilder.where`).
+   * @param patch The values to set.
+   * @param options Optional: `perRow` to run the update hooks and write history for each record.
+   * @returns A promise that resolves to the number of updated records.
+   * @example
+   * ```
+   * const archived = await postRepository.updateWhere({ status: 'draft', updatedAt: { lt: cutoff } }, { status: 'archived' });
+   * ```
    */
-  private async _delete(id: number | string, client: DBClient): Promise<void> {
-    const start = performance.now();
-    this.logger.logDebug(`Deleting ${this.table} with ID ${id}`);
-
-    const query = this.softDeleteField
-      ? `UPDATE ${this.table} SET ${this.softDeleteField} = ? WHERE id = ?`
-      : `DELETE FROM ${this.table} WHERE id = ?`;
-    const params = this.softDeleteField ? [new Date().toISOString(), id] : [id];
-
-    await client.query(query, params);
+  async updateWhere(criteria: WhereCriteria<T>, patch: Partial<T>, options: { perRow?: boolean } = {}): Promise<number> {
+    return this.client.transaction((txClient) => this._updateWhere(criteria, patch, {}, options, txClient));
+  }
 
-    if (this.cache) {
-      await this.cache.invalidate([
-        `find:${this.table}`,
-        `findOne:${this.table}:${id}`,
-      ]);
+  /**
+   * Atomically increments a numeric column (`SET column = column + amount`) on every record matching the criteria,
+   * so concurrent increments are never lost. Hooks and history are skipped unless `perRow` is set.
+   * @param field The property to increment.
+   * @param amount Optional: The amount to add. Defaults to 1.
+   * @param criteria Optional: The records to update. Updates every record if omitted.
+   * @param options Optional: `perRow` to run the update hooks and write history for each record.
+   * @returns A promise that resolves to the number of updated records.
+   * @example
+   * ```
+   * await productRepository.increment('stock', 5, { sku: 'A-1' });
+   * ```
+   */
+  async increment(
+    field: NumericPropertyName<T>,
+    amount: number = 1,
+    criteria: WhereCriteria<T> = {},
+    options: { perRow?: boolean } = {},
+  ): Promise<number> {
+    if (!this.columns[field]) {
+      throw new StabilizeError(`Unknown column ${field} on ${this.table}`, "UPDATE_ERROR");
     }
-    this.logger.logDebug(
-      `Deleted ${this.table} with ID ${id} in ${(performance.now() - start).toFixed(2)}ms`,
+    return this.client.transaction((txClient) =>
+      this._updateWhere(criteria, {}, { [field]: amount }, options, txClient),
     );
   }
 
   /**
-   * Deletes multiple records by their IDs in batches.
-   * @param ids An array of IDs to delete.
-   * @param options Optional: Specify batch size.
-   * @returns A promise that resolves when the operation is complete.
+   * Atomically decrements a numeric column on every record matching the criteria. See `increment`.
+   * @param field The property to decrement.
+   * @param amount Optional: The amount to subtract. Defaults to 1.
+   * @param criteria Optional: The records to update. Updates every record if omitted.
+   * @param options Optional: `perRow` to run the update hooks and write history for each record.
+   * @returns A promise that resolves to the number of updated records.
    * @example
    * ```
-   * await userRepository.bulkDelete([1, 2, 3]);
+   * await productRepository.decrement('stock', 1, { sku: 'A-1', stock: { gt: 0 } });
    * ```
    */
-  async bulkDelete(
-    ids: (number | string)[],
-    options: { batchSize?: number } = {},
-  ): Promise<void> {
-    return this.client.transaction((txClient) =>
-      this._bulkDelete(ids, options, txClient),
-    );
+  async decrement(
+    field: NumericPropertyName<T>,
+    amount: number = 1,
+    criteria: WhereCriteria<T> = {},
+    options: { perRow?: boolean } = {},
+  ): Promise<number> {
+    return this.increment(field, -amount, criteria, options);
   }
 
   /**
    * @internal
-   * The private implementation for bulk deleting records, executed within a transaction.
+   * The private implementation for `updateWhere`, `increment` and `decrement`, executed within a transaction.
    */
-  private async _bulkDelete(
-    ids: (number | string)[],
-    options: { batchSize?: number },
+  private async _updateWhere(
+    criteria: WhereCriteria<T>,
+    patch: Partial<T>,
+    increments: Record<string, number>,
+    options: { perRow?: boolean },
     client: DBClient,
-  ): Promise<void> {
+  ): Promise<number> {
     const start = performance.now();
-    this.logger.logDebug(`Bulk deleting ${ids.length} ${this.table} entities`);
-    if (!ids.length) return;
+    // Rules such as `unique()` exclude the records being updated: every matching record, or each record on `perRow`.
+    if (!options.perRow) {
+      await this.assertValid(patch, "update", client, criteria);
+      // One statement gives every matching record the same value, which only one record may have.
+      const uniqueFields = Object.keys(patch).filter((field) => {
+        const column = this.columnConfigs[field];
+        return column && isUniqueColumn(column) && (patch as Record<string, any>)[field] != null;
+      });
+      if (uniqueFields.length > 0 && (await this.count(criteria, client)) > 1) {
+        throw new ValidationError(Object.fromEntries(uniqueFields.map((field) => [field, [`Field ${field} must be unique`]])));
+      }
+    }
 
-    const batchSize = options.batchSize || 1000;
-    for (let i = 0; i < ids.length; i += batchSize) {
-      const batch = ids.slice(i, i + batchSize);
-      for (const id of batch) {
+    const timestamps = MetadataStorage.getTimestamps(this.model);
+    const data = { ...patch } as Record<string, any>;
+    if (timestamps.updatedAt && !data[timestamps.updatedAt]) {
+      data[timestamps.updatedAt] = new Date();
+    }
+    const values = this.processForSave(data, client);
+    const keys = Object.keys(values).filter((k) => this.columns[k] && k !== this.versionField && !(k in increments));
+    const assignments = [
+      ...keys.map((k) => `${this.columns[k]!.name} = ?`),
+      ...Object.keys(increments).map((k) => `${this.columns[k]!.name} = ${this.columns[k]!.name} + ?`),
+    ];
+    const setParams = [...keys.map((k) => values[k]), ...Object.values(increments)];
+    if (this.versionField) {
+      const column = this.columns[this.versionField]!.name;
+      assignments.push(`${column} = ${column} + 1`);
+    }
+    if (assignments.length === 0) return 0;
+    const setClause = assignments.join(", ");
+
+    let updated = 0;
+    if (options.perRow) {
+      const columns = this.primaryKey.map((key) => this.columns[key]?.name ?? key);
+      for (const row of await this.find().select(...columns).where(criteria).execute(client)) {
+        const id = this.idOf(row)!;
         const before = await this.findOne(id, {}, client);
         if (!before) continue;
+        await this.assertValid(patch, "update", client, this.keyCriteria(id));
+
+        const current = before as Record<string, any>;
+        const instance = new (Object.getPrototypeOf(before).constructor || Object)();
+        Object.assign(instance, before, data);
+        for (const [k, amount] of Object.entries(increments)) instance[k] = Number(current[k] ?? 0) + amount;
+        await this.runHooks(instance, "beforeUpdate");
+        await this.runHooks(instance, "beforeSave");
+
+        // Write the instance as the hooks left it; increments the hooks did not touch stay atomic.
+        const atomic = Object.fromEntries(
+          Object.entries(increments).filter(([k, amount]) => instance[k] === Number(current[k] ?? 0) + amount),
+        );
+        const changed = Object.keys(this.columns).filter(
+          (k) => !(k in atomic) && (k in data || k in increments || instance[k] !== current[k]),
+        );
+        const expectedVersion = this.versionField ? (data[this.versionField] ?? current[this.versionField]) : undefined;
+        await this.updateRow(
+          id,
+          this.processForSave(Object.fromEntries(changed.map((k) => [k, instance[k]])), client),
+          expectedVersion,
+          client,
+          atomic,
+        );
+        updated++;
+
+        const after = (await this.findOne(id, {}, client))!;
+        await this.runHooks(after, "afterUpdate");
+        await this.runHooks(after, "afterSave");
+        await this.writeHistory(
+          this.versionField ? { ...after, version: (after as Record<string, any>)[this.versionField] } : after,
+          "update",
+          client,
+        );
+      }
+    } else {
+      const where = this.find().where(criteria).buildConditions(this.getDBType(client));
+      updated = await client.execute(
+        `UPDATE ${this.table} SET ${setClause}${where.sql ? ` WHERE ${where.sql}` : ""}`,
+        [...setParams, ...where.params],
+      );
+    }
 
-        await this.runHooks(before, "beforeDelete");
-
-        const query = this.softDeleteField
-          ? `UPDATE ${this.table} SET ${this.softDeleteField} = ? WHERE id = ?`
-          : `DELETE FROM ${this.table} WHERE id = ?`;
-        const params = this.softDeleteField ? [new Date().toISOString(), id] : [id];
+    await this.invalidateQueries();
+    this.logger.logDebug(
+      `Updated ${updated} ${this.table} entities in ${(performance.now() - start).toFixed(2)}ms`,
+    );
+    return updated;
+  }
 
-        await client.query(query, params);
+  /**
+   * @internal
+   * Invalidates every cached query and record of the table, after a write whose affected IDs are unknown.
+   */
+  private async invalidateQueries(): Promise<void> {
+    if (!this.cache) return;
+    await this.cache.invalidate([`find:${this.table}`]);
+    await this.cache.invalidatePattern(`find:${this.table}:*`);
+    await this.cache.invalidatePattern(`findOne:${this.table}:*`);
+  }
+
+  /**
+   * Deletes a record by its primary key. Performs a soft delete if enabled on the model; a record that is
+   * already soft deleted keeps its original deletion time.
+   * @param id The primary key value, or an object of key properties for composite keys.
+   * @param options Optional: `OneToMany` relations to `cascade` the delete to, including nested paths such as
+   * `'posts.comments'`. Related records are deleted like this record (soft deleted if their model supports it), with hooks.
+   * @returns A promise that resolves when the operation is complete.
+   * @example
+   * ```
+   * await userRepository.delete(1);
+   * await userRepository.delete(1, { cascade: ['posts'] });
+   * ```
+   */
+  async delete(id: PrimaryKeyValue, options: { cascade?: string[] } = {}): Promise<void> {
+    return this.client.transaction((txClient) =>
+      this.destroy(id, groupPaths(options.cascade ?? []), false, txClient),
+    );
+  }
+
+  /**
+   * Permanently deletes a record by its primary key, even if the model uses soft deletes
+   * or the record is already soft deleted.
+   * @param id The primary key value, or an object of key properties for composite keys.
+   * @param options Optional: `OneToMany` relations to `cascade` the permanent delete to.
+   * @returns A promise that resolves when the operation is complete.
+   * @example
+   * ```
+   * await userRepository.forceDelete(1, { cascade: ['posts'] });
+   * ```
+   */
+  async forceDelete(id: PrimaryKeyValue, options: { cascade?: string[] } = {}): Promise<void> {
+    return this.client.transaction((txClient) =>
+      this.destroy(id, groupPaths(options.cascade ?? []), true, txClient),
+    );
+  }
+
+  /**
+   * @internal
+   * Deletes a record with its hooks and history, after deleting the records of its cascaded relations.
+   * A record that is already soft deleted is found too, and keeps its original deletion time unless `force` is set.
+   * @param id The primary key value of the record.
+   * @param cascade The cascaded relations, as grouped by `groupPaths`.
+   * @param force Whether to delete permanently, including already soft-deleted records.
+   * @param client The transaction client.
+   * @throws {StabilizeError} If the record does not exist or a cascaded relation is not `OneToMany`.
+   */
+  private async destroy(
+    id: PrimaryKeyValue,
+    cascade: Map<string, string[]>,
+    force: boolean,
+    client: DBClient,
+  ): Promise<void> {
+    const before = await this.findOne(id, { withTrashed: true }, client);
+    if (!before) throw new StabilizeError("Not found", "DELETE_ERROR");
+    await this.runHooks(before, "beforeDelete");
+
+    for (const [name, nested] of cascade) {
+      const rel = this.getCascadedRelation(name);
+      if (rel.type !== RelationType.OneToMany) {
+        throw new StabilizeError(`Only OneToMany relations can be cascaded on delete, ${name} is not`, "RELATION_ERROR");
+      }
+      const related = this.relatedRepository(rel, client);
+      const children = related.find().whereIn(rel.inverseKey ?? rel.foreignKey!, [(before as any)[this.relationKey()]]);
+      if (force) children.withTrashed();
+      for (const child of await children.execute(client)) {
+        await related.destroy(related.idOf(child)!, groupPaths(nested), force, client);
+      }
+    }
+
+    await this._delete(id, client, force);
+
+    await this.runHooks(before, "afterDelete");
+    await this.writeHistory(before, "delete", client);
+  }
+
+  /**
+   * @internal
+   * The private implementation for deleting a record, executed within a transaction.
+   * @param force Whether to delete the row even if the model uses soft deletes.
+   */
+  private async _delete(id: PrimaryKeyValue, client: DBClient, force = false): Promise<void> {
+    const start = performance.now();
+    const key = this.formatId(id);
+    this.logger.logDebug(`Deleting ${this.table} with ID ${key}`);
+
+    const where = this.whereId(id, client);
+    const soft = this.softDeleteColumn && !force;
+    const query = soft
+      ? `UPDATE ${this.table} SET ${this.softDeleteColumn} = ? WHERE ${where.sql} AND ${this.softDeleteColumn} IS NULL`
+      : `DELETE FROM ${this.table} WHERE ${where.sql}`;
+    const params = soft ? [this.deletedAtValue(client), ...where.params] : where.params;
+
+    await client.query(query, params);
+
+    if (this.cache) {
+      await this.cache.invalidate([
+        `find:${this.table}`,
+        `findOne:${this.table}:${key}`,
+      ]);
+      await this.cache.invalidatePattern(`find:${this.table}:*`);
+    }
+    this.logger.logDebug(
+      `Deleted ${this.table} with ID ${key} in ${(performance.now() - start).toFixed(2)}ms`,
+    );
+  }
+
+  /**
+   * Deletes multiple records by their primary keys in batches.
+   * @param ids An array of primary key values to delete.
+   * @param options Optional: Specify batch size.
+   * @returns A promise that resolves when the operation is complete.
+   * @example
+   * ```
+   * await userRepository.bulkDelete([1, 2, 3]);
+   * ```
+   */
+  async bulkDelete(
+    ids: PrimaryKeyValue[],
+    options: { batchSize?: number } = {},
+  ): Promise<void> {
+    await this.client.transaction((txClient) =>
+      this._bulkDelete(ids, options, txClient),
+    );
+  }
+
+  /**
+   * @internal
+   * The private implementation for bulk deleting records, executed within a transaction.
+   */
+  private async _bulkDelete(
+    ids: PrimaryKeyValue[],
+    options: { batchSize?: number },
+    client: DBClient,
+  ): Promise<number> {
+    const start = performance.now();
+    this.logger.logDebug(`Bulk deleting ${ids.length} ${this.table} entities`);
+    if (!ids.length) return 0;
+    let deleted = 0;
+
+    const batchSize = options.batchSize || 1000;
+    for (let i = 0; i < ids.length; i += batchSize) {
+      const batch = ids.slice(i, i + batchSize);
+      for (const id of batch) {
+        const before = await this.findOne(id, {}, client);
+        if (!before) continue;
+
+        await this.runHooks(before, "beforeDelete");
+
+        const where = this.whereId(id, client);
+        const query = this.softDeleteColumn
+          ? `UPDATE ${this.table} SET ${this.softDeleteColumn} = ? WHERE ${where.sql}`
+          : `DELETE FROM ${this.table} WHERE ${where.sql}`;
+        const params = this.softDeleteColumn ? [this.deletedAtValue(client), ...where.params] : where.params;
+
+        await client.query(query, params);
+        deleted++;
 
         await this.runHooks(before, "afterDelete");
 
@@ -1030,19 +1623,57 @@ export class Repository<T> {
     this.logger.logDebug(
       `Bulk deleted ${ids.length} ${this.table} entities in ${(performance.now() - start).toFixed(2)}ms`,
     );
+    return deleted;
   }
 
   /**
-   * Recovers a soft-deleted record by its ID.
+   * Deletes every record matching object criteria with a single statement (a soft delete if enabled on the model).
+   * Hooks and history are skipped unless `perRow` is set, in which case each record is deleted like `bulkDelete` does.
+   * @param criteria The property values or operators to match (see `QueryBuilder.where`).
+   * @param options Optional: `perRow` to run the delete hooks and write history for each record.
+   * @returns A promise that resolves to the number of deleted records.
+   * @example
+   * ```
+   * const removed = await sessionRepository.deleteWhere({ expiresAt: { lt: new Date() } });
+   * ```
+   */
+  async deleteWhere(criteria: WhereCriteria<T>, options: { perRow?: boolean } = {}): Promise<number> {
+    return this.client.transaction(async (txClient) => {
+      if (options.perRow) {
+        const columns = this.primaryKey.map((key) => this.columns[key]?.name ?? key);
+        const rows = await this.find().select(...columns).where(criteria).execute(txClient);
+        return this._bulkDelete(rows.map((row) => this.idOf(row)!), {}, txClient);
+      }
+
+      const start = performance.now();
+      const where = this.find().where(criteria).buildConditions(this.getDBType(txClient));
+      const condition = where.sql ? ` WHERE ${where.sql}` : "";
+      const deleted = this.softDeleteColumn
+        ? await txClient.execute(
+            `UPDATE ${this.table} SET ${this.softDeleteColumn} = ?${condition}`,
+            [this.deletedAtValue(txClient), ...where.params],
+          )
+        : await txClient.execute(`DELETE FROM ${this.table}${condition}`, where.params);
+
+      await this.invalidateQueries();
+      this.logger.logDebug(
+        `Deleted ${deleted} ${this.table} entities in ${(performance.now() - start).toFixed(2)}ms`,
+      );
+      return deleted;
+    });
+  }
+
+  /**
+   * Recovers a soft-deleted record by its primary key.
    * Throws an error if soft delete is not enabled on the model.
-   * @param id The ID of the record to recover.
+   * @param id The primary key value, or an object of key properties for composite keys.
    * @returns A promise that resolves to the recovered entity.
    * @example
    * ```
    * const recoveredUser = await userRepository.recover(1);
    * ```
    */
-  async recover(id: number | string): Promise<T> {
+  async recover(id: PrimaryKeyValue): Promise<T> {
     return this.client.transaction((txClient) => this._recover(id, txClient));
   }
 
@@ -1050,9 +1681,10 @@ export class Repository<T> {
    * @internal
    * The private implementation for recovering a record, executed within a transaction.
    */
-  private async _recover(id: number | string, client: DBClient): Promise<T> {
+  private async _recover(id: PrimaryKeyValue, client: DBClient): Promise<T> {
     const start = performance.now();
-    this.logger.logDebug(`Recovering ${this.table} with ID ${id}`);
+    const key = this.formatId(id);
+    this.logger.logDebug(`Recovering ${this.table} with ID ${key}`);
     if (!this.softDeleteField) {
       throw new StabilizeError(
         "Soft delete not enabled for this model",
@@ -1060,9 +1692,10 @@ export class Repository<T> {
       );
     }
 
+    const where = this.whereId(id, client);
     await client.query(
-      `UPDATE ${this.table} SET ${this.softDeleteField} = NULL WHERE id = ?`,
-      [id],
+      `UPDATE ${this.table} SET ${this.softDeleteColumn} = NULL WHERE ${where.sql}`,
+      where.params,
     );
 
     const result = await this.findOne(id, {}, client);
@@ -1071,16 +1704,67 @@ export class Repository<T> {
     if (this.cache) {
       await this.cache.invalidate([
         `find:${this.table}`,
-        `findOne:${this.table}:${id}`,
+        `findOne:${this.table}:${key}`,
       ]);
+      await this.cache.invalidatePattern(`find:${this.table}:*`);
     }
 
     this.logger.logDebug(
-      `Recovered ${this.table} with ID ${id} in ${(performance.now() - start).toFixed(2)}ms`,
+      `Recovered ${this.table} with ID ${key} in ${(performance.now() - start).toFixed(2)}ms`,
     );
     return result;
   }
 
+  /**
+   * Recovers several soft-deleted records by their primary keys with a single statement.
+   * @param ids The primary key values of the records to recover.
+   * @returns A promise that resolves to the number of recovered records.
+   * @throws {StabilizeError} If soft delete is not enabled on the model.
+   * @example
+   * ```
+   * const recovered = await userRepository.bulkRecover([1, 2, 3]);
+   * ```
+   */
+  async bulkRecover(ids: PrimaryKeyValue[]): Promise<number> {
+    if (!this.softDeleteColumn) {
+      throw new StabilizeError("Soft delete not enabled for this model", "RECOVER_ERROR");
+    }
+    if (ids.length === 0) return 0;
+    return this.client.transaction(async (txClient) => {
+      const where = this.whereIds(this.find().onlyTrashed(), ids, txClient).buildConditions(this.getDBType(txClient));
+      const recovered = await txClient.execute(
+        `UPDATE ${this.table} SET ${this.softDeleteColumn} = NULL WHERE ${where.sql}`,
+        where.params,
+      );
+      await this.invalidateQueries();
+      this.logger.logDebug(`Recovered ${recovered} ${this.table} entities`);
+      return recovered;
+    });
+  }
+
+  /**
+   * Permanently deletes soft-deleted records, optionally only those deleted before a given date.
+   * Hooks and history are skipped.
+   * @param options Optional: `olderThan` to only purge records soft deleted before this date.
+   * @returns A promise that resolves to the number of purged records.
+   * @throws {StabilizeError} If soft delete is not enabled on the model.
+   * @example
+   * ```
+   * const purged = await userRepository.purgeTrashed({ olderThan: new Date(Date.now() - 30 * 86400000) });
+   * ```
+   */
+  async purgeTrashed(options: { olderThan?: Date } = {}): Promise<number> {
+    if (!this.softDeleteField) {
+      throw new StabilizeError("Soft delete not enabled for this model", "DELETE_ERROR");
+    }
+    const criteria = (options.olderThan ? { [this.softDeleteField]: { lt: options.olderThan } } : {}) as WhereCriteria<T>;
+    const where = this.find().onlyTrashed().where(criteria).buildConditions(this.getDBType());
+    const purged = await this.client.execute(`DELETE FROM ${this.table} WHERE ${where.sql}`, where.params);
+    await this.invalidateQueries();
+    this.logger.logDebug(`Purged ${purged} soft-deleted ${this.table} entities`);
+    return purged;
+  }
+
   /**
    * Executes a raw SQL query directly against the database.
    * Bypasses most ORM abstractions. Use with caution.
@@ -1102,48 +1786,410 @@ export class Repository<T> {
     return result;
   }
 
+  /**
+   * Loads a relation of an entity on demand and attaches it under the relation's property.
+   * Calls made in the same tick are batched into one query per relation.
+   * @param entity The entity, or entities, to load the relation for.
+   * @param relation The relation name, or a dotted path to also load nested relations.
+   * @param _client Optional: An internal client for transactions.
+   * @returns A promise that resolves to the loaded relation value, or one value per entity when given an array.
+   * @example
+   * ```
+   * const posts = await userRepository.load(user, 'posts');
+   * const author = await postRepository.load(post, 'author.profile');
+   * ```
+   */
+  async load(entity: T, relation: string, _client?: DBClient): Promise<any>;
+  async load(entities: T[], relation: string, _client?: DBClient): Promise<any[]>;
+  async load(entity: T | T[], relation: string, _client?: DBClient): Promise<any> {
+    const batcher = this.batcherFor(_client);
+    const entities = (Array.isArray(entity) ? entity : [entity]) as object[];
+    const property = relation.split(".")[0]!;
+    const values = await batcher.loadMany(entities, relation);
+    entities.forEach((item, i) => assignRelation(item, property, values[i]));
+    return Array.isArray(entity) ? values : values[0];
+  }
+
+  /**
+   * Creates a DataLoader-style batcher for this repository's relations, typically one per request
+   * (e.g. in a GraphQL context). Lookups made in the same tick are coalesced into one
+   * `WHERE fk IN (...)` query per relation, and results are memoized per entity for the batcher's lifetime.
+   * @param _client Optional: The client to load relations with. Defaults to the repository's client.
+   * @param options Optional: Set `cache: false` to batch without memoizing results.
+   * @returns A new `RelationBatcher`.
+   * @example
+   * ```
+   * const context = { userPosts: userRepository.createBatcher() };
+   * // resolver: User.posts
+   * posts: (user, _args, context) => context.userPosts.load(user, 'posts'),
+   * ```
+   */
+  createBatcher(_client?: DBClient, options: RelationBatcherOptions = {}): RelationBatcher {
+    const client = _client || this.client;
+    return new RelationBatcher((entities, relation) => this.loadRelations(entities, [relation], client), options);
+  }
+
   /**
    * @internal
-   * Loads a relation by adding the appropriate JOIN clause to a query builder.
-   * @param queryBuilder The `QueryBuilder` instance to modify.
-   * @param relation The name of the relation to load.
+   * Gets the non-memoizing batcher that loads relations with a client, shared by every load made with it.
+   * @param _client Optional: The client to load relations with. Defaults to the repository's client.
    */
-  private async loadRelation(queryBuilder: QueryBuilder<T>, relation: string) {
-    this.logger.logDebug(`Loading relation ${relation} for ${this.table}`);
-    const rel = this.relations[relation];
-    if (!rel)
-      throw new StabilizeError(
-        `Relation ${relation} not found`,
-        "RELATION_ERROR",
-      );
+  private batcherFor(_client?: DBClient): RelationBatcher {
+    if (!_client || _client === this.client) return this.batcher;
+    let batcher = this.clientBatchers.get(_client);
+    if (!batcher) {
+      batcher = this.createBatcher(_client, { cache: false });
+      this.clientBatchers.set(_client, batcher);
+    }
+    return batcher;
+  }
 
-    const relatedTable = MetadataStorage.getTableName(rel.targetModel());
-    if (
-      rel.type === RelationType.OneToOne ||
-      rel.type === RelationType.ManyToOne
-    ) {
-      queryBuilder.join(
-        relatedTable,
-        `${this.table}.${rel.foreignKey} = ${relatedTable}.id`,
-      );
-    } else if (rel.type === RelationType.OneToMany) {
-      queryBuilder.join(
-        relatedTable,
-        `${relatedTable}.${rel.inverseKey} = ${this.table}.id`,
+  /**
+   * Links a record to related records through a many-to-many relation's join table.
+   * Ids that are already linked are skipped.
+   * @param ownerId The ID of the owning record.
+   * @param relation The name of a `ManyToMany` relation.
+   * @param ids The ID, or IDs, of the related records to link.
+   * @param _client Optional: An internal client for transactions.
+   * @returns A promise that resolves to the IDs that were newly linked.
+   * @example
+   * ```
+   * await userRepository.attach(1, 'roles', [2, 3]);
+   * ```
+   */
+  async attach(
+    ownerId: number | string,
+    relation: string,
+    ids: number | string | (number | string)[],
+    _client?: DBClient,
+  ): Promise<(number | string)[]> {
+    const rel = this.getManyToMany(relation);
+    const client = _client || this.client;
+    const linked = new Set((await this.linkedIds(ownerId, rel, client)).map(String));
+    const attached = distinctKeys(Array.isArray(ids) ? ids : [ids]).filter((id) => !linked.has(String(id)));
+    if (attached.length > 0) {
+      await client.query(
+        `INSERT INTO ${rel.joinTable} (${rel.foreignKey}, ${rel.inverseKey}) VALUES ${attached.map(() => "(?, ?)").join(", ")}`,
+        attached.flatMap((id) => [ownerId, id]),
       );
-    } else if (rel.type === RelationType.ManyToMany) {
-      queryBuilder
-        .join(
-          rel.joinTable!,
-          `${rel.joinTable}.${rel.foreignKey} = ${this.table}.id`,
-        )
-        .join(
-          relatedTable,
-          `${relatedTable}.id = ${rel.joinTable}.${rel.inverseKey}`,
-        );
     }
+    this.logger.logDebug(`Attached ${attached.length} ${relation} to ${this.table} with ID ${ownerId}`);
+    return attached;
+  }
+
+  /**
+   * Removes links between a record and related records from a many-to-many relation's join table.
+   * @param ownerId The ID of the owning record.
+   * @param relation The name of a `ManyToMany` relation.
+   * @param ids Optional: The ID, or IDs, of the related records to unlink. Unlinks all records if omitted.
+   * @param _client Optional: An internal client for transactions.
+   * @returns A promise that resolves when the links are removed.
+   * @example
+   * ```
+   * await userRepository.detach(1, 'roles', 3);
+   * ```
+   */
+  async detach(
+    ownerId: number | string,
+    relation: string,
+    ids?: number | string | (number | string)[],
+    _client?: DBClient,
+  ): Promise<void> {
+    const rel = this.getManyToMany(relation);
+    const client = _client || this.client;
+    const detached = ids === undefined ? null : distinctKeys(Array.isArray(ids) ? ids : [ids]);
+    if (detached?.length === 0) return;
+    let query = `DELETE FROM ${rel.joinTable} WHERE ${rel.foreignKey} = ?`;
+    if (detached) query += ` AND ${rel.inverseKey} IN (${detached.map(() => "?").join(", ")})`;
+    await client.query(query, [ownerId, ...(detached ?? [])]);
+    this.logger.logDebug(`Detached ${relation} from ${this.table} with ID ${ownerId}`);
+  }
+
+  /**
+   * Replaces the related records linked to a record through a many-to-many relation with exactly `ids`,
+   * within a transaction.
+   * @param ownerId The ID of the owning record.
+   * @param relation The name of a `ManyToMany` relation.
+   * @param ids The IDs of the related records that should be linked.
+   * @param _client Optional: An internal client for transactions.
+   * @returns A promise that resolves to the IDs that were linked and unlinked.
+   * @example
+   * ```
+   * const { attached, detached } = await userRepository.sync(1, 'roles', [1, 4]);
+   * ```
+   */
+  async sync(
+    ownerId: number | string,
+    relation: string,
+    ids: (number | string)[],
+    _client?: DBClient,
+  ): Promise<{ attached: (number | string)[]; detached: (number | string)[] }> {
+    const rel = this.getManyToMany(relation);
+    const client = _client || this.client;
+    return client.transaction(async (txClient) => {
+      const wanted = new Set(ids.map(String));
+      const detached = (await this.linkedIds(ownerId, rel, txClient)).filter((id) => !wanted.has(String(id)));
+      await this.detach(ownerId, relation, detached, txClient);
+      const attached = await this.attach(ownerId, relation, ids, txClient);
+      return { attached, detached };
+    });
+  }
+
+  /**
+   * @internal
+   * Gets a relation's configuration, ensuring it is a many-to-many relation with a join table.
+   * @param relation The relation name.
+   * @throws {StabilizeError} If the relation is not a `ManyToMany` relation.
+   */
+  private getManyToMany(relation: string): Repository<T>["relations"][string] {
+    const rel = this.relations[relation];
+    if (!rel || rel.type !== RelationType.ManyToMany || !rel.joinTable) {
+      throw new StabilizeError(`Relation ${relation} is not a many-to-many relation on ${this.table}`, "RELATION_ERROR");
+    }
+    return rel;
   }
 
+  /**
+   * @internal
+   * Reads the IDs of the related records linked to a record in a many-to-many join table.
+   */
+  private async linkedIds(
+    ownerId: number | string,
+    rel: Repository<T>["relations"][string],
+    client: DBClient,
+  ): Promise<(number | string)[]> {
+    const links = await new QueryBuilder<Record<string, any>>(rel.joinTable!, undefined, client)
+      .select(rel.inverseKey!)
+      .where(`${rel.foreignKey} = ?`, ownerId)
+      .execute(client);
+    return links.map((link) => link[rel.inverseKey!]);
+  }
+
+  /**
+   * @internal
+   * Saves the cascaded relations whose foreign key lives on this model (`ManyToOne`, `OneToOne`)
+   * before the record itself is written, and sets the foreign key on `data`.
+   * @param data The values being written. Modified in place.
+   * @param cascade The cascaded relations, grouped by relation name.
+   * @param client The transaction client.
+   * @returns The saved related entities, keyed by relation name.
+   */
+  private async cascadeOwned(
+    data: Record<string, any>,
+    cascade: Map<string, string[]>,
+    client: DBClient,
+  ): Promise<Map<string, any>> {
+    const saved = new Map<string, any>();
+    for (const [name, nested] of cascade) {
+      const rel = this.getCascadedRelation(name);
+      if (rel.type !== RelationType.ManyToOne && rel.type !== RelationType.OneToOne) continue;
+      const foreignKey = this.propertyByColumn[rel.foreignKey!] ?? rel.foreignKey!;
+      const value = data[name];
+      if (value === undefined) continue;
+      const related = value === null ? null : await this.saveRelated(rel, value, nested, client);
+      data[foreignKey] = related === null ? null : related[this.relatedRepository(rel, client).relationKey()];
+      saved.set(name, related);
+    }
+    return saved;
+  }
+
+  /**
+   * @internal
+   * Saves the cascaded relations whose foreign key lives on the related model (`OneToMany`) or in a join
+   * table (`ManyToMany`) after the record itself is written, and attaches all saved relations to it.
+   * @param owner The saved record.
+   * @param data The values that were written, including the relation properties.
+   * @param owned The relations already saved by `cascadeOwned`.
+   * @param cascade The cascaded relations, grouped by relation name.
+   * @param client The transaction client.
+   */
+  private async cascadeInverse(
+    owner: T,
+    data: Record<string, any>,
+    owned: Map<string, any>,
+    cascade: Map<string, string[]>,
+    client: DBClient,
+  ): Promise<void> {
+    for (const [name, nested] of cascade) {
+      const rel = this.getCascadedRelation(name);
+      if (owned.has(name)) {
+        assignRelation(owner as object, name, owned.get(name));
+        continue;
+      }
+      const items = data[name];
+      if (!Array.isArray(items) || rel.type === RelationType.ManyToOne || rel.type === RelationType.OneToOne) continue;
+      const ownerId = (owner as any)[this.relationKey()];
+
+      if (rel.type === RelationType.OneToMany) {
+        const inverseColumn = rel.inverseKey ?? rel.foreignKey!;
+        const inverseKey = this.relatedProperty(rel, inverseColumn);
+        const children = [];
+        for (const item of items) {
+          children.push(await this.saveRelated(rel, { ...item, [inverseKey]: ownerId }, nested, client));
+        }
+        assignRelation(owner as object, name, children);
+        continue;
+      }
+
+      // ManyToMany: items are related entities or their ids.
+      const linked = [];
+      for (const item of items) {
+        linked.push(item !== null && typeof item === "object" ? await this.saveRelated(rel, item, nested, client) : item);
+      }
+      const relatedKey = this.relatedRepository(rel, client).relationKey();
+      await this.sync(ownerId, name, linked.map((item) => (typeof item === "object" ? item[relatedKey] : item)), client);
+      assignRelation(owner as object, name, linked);
+    }
+  }
+
+  /**
+   * @internal
+   * Inserts a related entity, or updates it when it has a primary key, through a repository for the related model.
+   * An entity with nothing but its primary key is returned as is.
+   * @param rel The relation configuration.
+   * @param item The related entity.
+   * @param cascade The nested relations to cascade.
+   * @param client The transaction client.
+   * @returns The saved related entity.
+   */
+  private async saveRelated(
+    rel: Repository<T>["relations"][string],
+    item: Record<string, any>,
+    cascade: string[],
+    client: DBClient,
+  ): Promise<any> {
+    const related = this.relatedRepository(rel, client);
+    const id = related.idOf(item);
+    if (id === undefined) return related.create(item, { cascade });
+    const values = Object.fromEntries(Object.entries(item).filter(([key]) => !related.primaryKey.includes(key)));
+    if (Object.keys(values).length === 0 && cascade.length === 0) return item;
+    return related.update(id, values, { cascade });
+  }
+
+  /**
+   * @internal
+   * Creates an uncached repository for the target model of a relation.
+   * @param rel The relation configuration.
+   * @param client The client the repository executes with.
+   */
+  private relatedRepository(rel: Repository<T>["relations"][string], client: DBClient): Repository<any> {
+    return new Repository<any>(client, rel.targetModel(), { enabled: false, ttl: 60 }, this.logger);
+  }
+
+  /**
+   * @internal
+   * Gets the configuration of a relation named in a `cascade` option.
+   * @throws {StabilizeError} If the relation is not defined on the model.
+   */
+  private getCascadedRelation(name: string): Repository<T>["relations"][string] {
+    const rel = this.relations[name];
+    if (!rel) throw new StabilizeError(`Relation ${name} not found on ${this.table}`, "RELATION_ERROR");
+    return rel;
+  }
+
+  /**
+   * @internal
+   * Maps a column of a related model to its property name.
+   */
+  private relatedProperty(rel: Repository<T>["relations"][string], column: string): string {
+    const columns = MetadataStorage.getColumns(rel.targetModel());
+    const entry = Object.entries(columns).find(([key, col]) => (col.name ?? key) === column);
+    return entry ? entry[0] : column;
+  }
+
+  /**
+   * @internal
+   * Eager loads relations into already hydrated entities of this repository's model.
+   * Each relation costs one batched `IN (...)` query (two for `ManyToMany`, which also reads the join table),
+   * regardless of the number of entities. Dotted paths are loaded level by level on the related entities.
+   * @param entities The entities to attach the relations to.
+   * @param relations The relation names or dotted paths (e.g. `'posts.comments.author'`).
+   * @param client The client to load the relations with.
+   * @throws {StabilizeError} If a relation is not defined on the model.
+   */
+  private async loadRelations(entities: T[], relations: string[], client: DBClient): Promise<void> {
+    if (entities.length === 0 || relations.length === 0) return;
+
+    for (const [name, nested] of groupPaths(relations)) {
+      const rel = this.relations[name];
+      if (!rel) {
+        throw new StabilizeError(`Relation ${name} not found on ${this.table}`, "RELATION_ERROR");
+      }
+      this.logger.logDebug(`Loading relation ${name} for ${entities.length} ${this.table} entities`);
+
+      const related = this.relatedRepository(rel, this.client);
+      const loaded = await this.fetchRelation(entities, name, rel, related, client);
+      await related.loadRelations(loaded, nested, client);
+    }
+  }
+
+  /**
+   * @internal
+   * Fetches the entities of one relation and assigns them to the relation property of each owner.
+   * @param entities The owning entities.
+   * @param name The relation property name.
+   * @param rel The relation configuration.
+   * @param related A repository for the related model.
+   * @param client The client to query with.
+   * @returns The distinct related entities that were loaded.
+   */
+  private async fetchRelation(
+    entities: T[],
+    name: string,
+    rel: Repository<T>["relations"][string],
+    related: Repository<any>,
+    client: DBClient,
+  ): Promise<any[]> {
+    const owners = entities as Record<string, any>[];
+
+    if (rel.type === RelationType.OneToOne || rel.type === RelationType.ManyToOne) {
+      const relatedKey = related.relationKey();
+      const relatedColumn = related.columns[relatedKey]?.name ?? relatedKey;
+      const foreignKey = this.propertyByColumn[rel.foreignKey!] ?? rel.foreignKey!;
+      const ids = distinctKeys(owners.map((entity) => entity[foreignKey]));
+      const rows = ids.length > 0 ? await related.find().whereIn(relatedColumn, ids).execute(client) : [];
+      const byId = new Map(rows.map((row: any) => [String(row[relatedKey]), row]));
+      for (const entity of owners) {
+        const key = entity[foreignKey];
+        assignRelation(entity, name, key === null || key === undefined ? null : byId.get(String(key)) ?? null);
+      }
+      return rows;
+    }
+
+    const ownerKey = this.relationKey();
+    const ownerIds = distinctKeys(owners.map((entity) => entity[ownerKey]));
+
+    if (rel.type === RelationType.OneToMany) {
+      const inverseColumn = rel.inverseKey ?? rel.foreignKey!;
+      const inverseKey = related.propertyByColumn[inverseColumn] ?? inverseColumn;
+      const rows = ownerIds.length > 0 ? await related.find().whereIn(inverseColumn, ownerIds).execute(client) : [];
+      const byOwner = groupBy(rows, (row: any) => String(row[inverseKey]));
+      for (const entity of owners) {
+        assignRelation(entity, name, byOwner.get(String(entity[ownerKey])) ?? []);
+      }
+      return rows;
+    }
+
+    // ManyToMany: read the join table, then the related entities it points to.
+    const relatedKey = related.relationKey();
+    const relatedColumn = related.columns[relatedKey]?.name ?? relatedKey;
+    const links = ownerIds.length > 0
+      ? await new QueryBuilder<Record<string, any>>(rel.joinTable!, undefined, client)
+        .select(rel.foreignKey!, rel.inverseKey!)
+        .whereIn(rel.foreignKey!, ownerIds)
+        .execute(client)
+      : [];
+    const relatedIds = distinctKeys(links.map((link) => link[rel.inverseKey!]));
+    const rows = relatedIds.length > 0 ? await related.find().whereIn(relatedColumn, relatedIds).execute(client) : [];
+    const byId = new Map(rows.map((row: any) => [String(row[relatedKey]), row]));
+    const byOwner = groupBy(links, (link) => String(link[rel.foreignKey!]));
+    for (const entity of owners) {
+      assignRelation(entity, name, (byOwner.get(String(entity[ownerKey])) ?? [])
+        .map((link) => byId.get(String(link[rel.inverseKey!])))
+        .filter((row) => row !== undefined));
+    }
+    return rows;
+  }
 
   /**
    * Retrieves paginated data and total record count from the database.
@@ -1155,7 +2201,7 @@ export class Repository<T> {
    * @returns {Promise<{ data: T[]; total: number; page: number; pageSize: number }>} 
    * An object containing:
    *  - `data`: Array of paginated records.
-   *  - `total`: Total number of records in the table.
+   *  - `total`: Total number of records in the table, excluding soft-deleted records.
    *  - `page`: Current page number.
    *  - `pageSize`: Number of items per page.
    *
@@ -1169,40 +2215,307 @@ export class Repository<T> {
     options: any = {}
   ): Promise<{ data: T[]; total: number; page: number; pageSize: number }> {
     const qb = this.find();
+    const total = await qb.count();
     const data = await qb.paginate(page, pageSize).execute(this.client);
-    const result = await this.client.query<{ count: number }>(
-      `SELECT COUNT(*) as count FROM ${this.table}`
-    );
-    const count = result?.[0]?.count ?? 0;
-    return { data, total: Number(count), page, pageSize };
+    return { data, total, page, pageSize };
   }
 
 
-  // Encrypt fields before save
-  private processForSave(entity: any): any {
+  /**
+   * @internal
+   * Applies column transformers (including encryption) and serializes every known column to the representation
+   * bound for the client's dialect (see `toDatabaseValue`). Keys that are not model columns are copied unchanged.
+   * @param entity The entity or partial entity to save.
+   * @param _client Optional: The client the values will be written with (determines the dialect).
+   * @returns The values to bind, keyed by property name.
+   */
+  private processForSave(entity: any, _client?: DBClient): Record<string, any> {
+    const dbType = this.getDBType(_client);
     const processed = { ...entity };
     for (const [key, col] of Object.entries(this.columns)) {
-      if ((col as any).encrypted && processed[key]) {
-        processed[key] = encrypt(processed[key]);
+      if (!(key in processed)) continue;
+      if (col.transformer && processed[key] !== null && processed[key] !== undefined) {
+        processed[key] = col.transformer.to(processed[key]);
       }
+      processed[key] = toDatabaseValue(processed[key], col.type, dbType);
     }
     return processed;
   }
 
-  // Decrypt fields after load
-  private processForLoad(row: any): any {
-    const processed = { ...row };
+  /**
+   * @internal
+   * Hydrates a database row into a model instance: column names are mapped back to property names,
+   * values are coerced to their JavaScript types (see `fromDatabaseValue`) and column transformers are reversed.
+   * Fields that are not model columns (e.g. joined columns or SQL computed fields) are kept as they are,
+   * SQL computed fields with a `type` are coerced, and `get` computed fields are derived from the hydrated entity.
+   * Each relation that is not present on the row becomes a lazy loader method, batched with other lazy loads.
+   * @param row The row returned by the driver.
+   * @param _client Optional: The client the row was read with (determines the dialect and loads lazy relations).
+   * @returns The hydrated entity.
+   */
+  private processForLoad(row: any, _client?: DBClient): T {
+    const dbType = this.getDBType(_client);
+    const data: Record<string, any> = {};
+    for (const [field, value] of Object.entries(row)) {
+      data[this.propertyByColumn[field] ?? field] = value;
+    }
     for (const [key, col] of Object.entries(this.columns)) {
-      if ((col as any).encrypted && processed[key]) {
-        try {
-          processed[key] = decrypt(processed[key]);
-        } catch {
-          // Optionally, log or throw for corrupted/corrupt data
-          processed[key] = null;
-        }
+      if (!(key in data)) continue;
+      data[key] = fromDatabaseValue(data[key], col.type, dbType);
+      if (col.transformer && data[key] !== null && data[key] !== undefined) {
+        data[key] = col.transformer.from(data[key]);
       }
     }
-    return processed;
+    for (const [name, field] of Object.entries(this.computed)) {
+      if ("sql" in field && field.type !== undefined && name in data) {
+        data[name] = fromDatabaseValue(data[name], field.type, dbType);
+      }
+    }
+    const entity = new this.model(data);
+    for (const [name, field] of Object.entries(this.computed)) {
+      if ("get" in field) (entity as any)[name] = field.get(entity);
+    }
+    // Relations that were not eager loaded get a lazy loader: `await user.posts()`, using the row's client.
+    const batcher = this.batcherFor(_client);
+    for (const name of Object.keys(this.relations)) {
+      if (name in data) continue;
+      Object.defineProperty(entity, name, {
+        value: () => batcher.load(entity as object, name),
+        enumerable: false,
+        writable: true,
+        configurable: true,
+      });
+    }
+    return entity;
+  }
+
+  /**
+   * @internal
+   * Converts a single property value to the parameter bound for its column, like `processForSave` does.
+   * @param key The property name.
+   * @param value The entity value.
+   * @param dbType The target database dialect.
+   */
+  private bindValue(key: string, value: any, dbType: DBType): any {
+    const col = this.columns[key];
+    if (!col) return value;
+    const stored = col.transformer && value !== null && value !== undefined ? col.transformer.to(value) : value;
+    return toDatabaseValue(stored, col.type, dbType);
   }
 
+  /**
+   * @internal
+   * Gets the value written to the soft delete column when a record is deleted.
+   * @param client The client the value will be written with.
+   */
+  private deletedAtValue(client: DBClient): any {
+    const type = this.softDeleteField ? this.columns[this.softDeleteField]?.type : undefined;
+    return toDatabaseValue(new Date(), type ?? DataTypes.DATETIME, this.getDBType(client));
+  }
+
+  /**
+   * @internal
+   * Builds the WHERE condition matching a record by its primary key.
+   * @param id The key value, an object of key properties (composite keys), or an entity.
+   * @param client The client the condition will be executed with (determines the dialect).
+   * @throws {StabilizeError} If a composite key property is missing.
+   */
+  private whereId(id: PrimaryKeyValue, client: DBClient): { sql: string; params: any[] } {
+    const dbType = this.getDBType(client);
+    const params = this.primaryKey.map((key) => {
+      const value = typeof id === "object" && id !== null ? (id as Record<string, any>)[key] : id;
+      if (value === undefined || value === null) {
+        throw new StabilizeError(`Missing primary key ${key} for ${this.table}`, "PRIMARY_KEY_ERROR");
+      }
+      return this.bindValue(key, value, dbType);
+    });
+    const sql = this.primaryKey.map((key) => `${this.columns[key]?.name ?? key} = ?`).join(" AND ");
+    return { sql, params };
+  }
+
+  /**
+   * @internal
+   * Copies an entity about to be inserted, generating its primary key with the model's `idStrategy`
+   * unless the strategy is `autoincrement` or the key is already set, starting its version column at 1
+   * and setting its `createdAt` and `updatedAt` timestamps unless given.
+   * @param entity The entity being inserted.
+   * @returns A copy of the entity.
+   */
+  private prepareInsert(entity: Partial<T>): Record<string, any> {
+    const copy = { ...entity } as Record<string, any>;
+    const key = this.primaryKey[0]!;
+    if (this.idStrategy !== "autoincrement" && this.primaryKey.length === 1 && (copy[key] === undefined || copy[key] === null)) {
+      copy[key] = generateId(this.idStrategy);
+    }
+    if (this.versionField && (copy[this.versionField] === undefined || copy[this.versionField] === null)) {
+      copy[this.versionField] = 1;
+    }
+    const timestamps = MetadataStorage.getTimestamps(this.model);
+    if (timestamps.createdAt && !copy[timestamps.createdAt]) copy[timestamps.createdAt] = new Date();
+    if (timestamps.updatedAt && !copy[timestamps.updatedAt]) copy[timestamps.updatedAt] = new Date();
+    return copy;
+  }
+
+  /**
+   * @internal
+   * Updates one record. On models with a version column, the version is incremented and, when an
+   * expected version is given, the record is only updated if it still has that version.
+   * @param id The primary key value of the record.
+   * @param values The serialized values to set.
+   * @param expectedVersion The version the caller read, or undefined to skip the check.
+   * @param client The database client to use.
+   * @param increments Optional: Amounts to add to columns atomically (`SET column = column + amount`).
+   * @throws StabilizeError with code `OPTIMISTIC_LOCK_ERROR` if the record was modified since `expectedVersion` was read.
+   */
+  private async updateRow(
+    id: PrimaryKeyValue,
+    values: Record<string, any>,
+    expectedVersion: number | undefined,
+    client: DBClient,
+    increments: Record<string, number> = {},
+  ): Promise<void> {
+    const keys = Object.keys(values).filter((k) => this.columns[k] && k !== this.versionField && !(k in increments));
+    const assignments = [
+      ...keys.map((k) => `${this.columns[k]?.name} = ?`),
+      ...Object.keys(increments).map((k) => `${this.columns[k]!.name} = ${this.columns[k]!.name} + ?`),
+    ];
+    const where = this.whereId(id, client);
+    const conditions = [where.sql];
+    const params = [...keys.map((k) => values[k]), ...Object.values(increments), ...where.params];
+    if (this.softDeleteColumn) conditions.push(`${this.softDeleteColumn} IS NULL`);
+
+    if (!this.versionField) {
+      if (assignments.length === 0) return;
+      await client.query(`UPDATE ${this.table} SET ${assignments.join(", ")} WHERE ${conditions.join(" AND ")}`, params);
+      return;
+    }
+
+    const column = this.columns[this.versionField]!.name;
+    assignments.push(`${column} = ${column} + 1`);
+    if (expectedVersion !== undefined && expectedVersion !== null) {
+      conditions.push(`${column} = ?`);
+      params.push(expectedVersion);
+    }
+    const affected = await client.execute(`UPDATE ${this.table} SET ${assignments.join(", ")} WHERE ${conditions.join(" AND ")}`, params);
+    if (affected === 0) {
+      throw new StabilizeError(
+        `${this.table} with ID ${this.formatId(id)} was modified by another transaction (expected version ${expectedVersion})`,
+        "OPTIMISTIC_LOCK_ERROR",
+      );
+    }
+  }
+
+  /**
+   * @internal
+   * Restricts a query to the records with the given primary keys.
+   * @param queryBuilder The query to restrict.
+   * @param ids The primary key values.
+   * @param client The client the query will be executed with (determines the dialect).
+   * @returns The same query builder.
+   */
+  private whereIds(queryBuilder: QueryBuilder<T>, ids: PrimaryKeyValue[], client: DBClient): QueryBuilder<T> {
+    if (this.primaryKey.length === 1) {
+      // The criteria compiler transforms and serializes the key values when the query is built.
+      const key = this.primaryKey[0]!;
+      const values = ids.map((id) => (typeof id === "object" && id !== null ? (id as Record<string, any>)[key] : id));
+      return queryBuilder.whereIn(key, values);
+    }
+    return queryBuilder.where((group) => {
+      for (const id of ids) {
+        const { sql, params } = this.whereId(id, client);
+        group.orWhere(sql, ...params);
+      }
+    });
+  }
+
+  /**
+   * @internal
+   * Gets the primary key value of an entity: the key value for single-column keys,
+   * or an object of key properties for composite keys.
+   * @param entity The entity.
+   * @returns The primary key value, or `undefined` if any key property is missing.
+   */
+  private idOf(entity: any): PrimaryKeyValue | undefined {
+    if (!entity) return undefined;
+    const values = this.primaryKey.map((key) => entity[key]);
+    if (values.some((value) => value === undefined || value === null)) return undefined;
+    if (this.primaryKey.length === 1) return values[0];
+    return Object.fromEntries(this.primaryKey.map((key, i) => [key, values[i]]));
+  }
+
+  /**
+   * @internal
+   * Formats a primary key value for cache keys and log messages.
+   */
+  private formatId(id: PrimaryKeyValue): string {
+    if (typeof id !== "object" || id === null) return String(id);
+    return this.primaryKey.map((key) => String((id as Record<string, any>)[key])).join(":");
+  }
+
+  /**
+   * @internal
+   * Gets the primary key property used by relations, which are keyed by a single column.
+   * @throws {StabilizeError} If the model has a composite primary key.
+   */
+  private relationKey(): string {
+    if (this.primaryKey.length !== 1) {
+      throw new StabilizeError(`Relations are not supported on ${this.table}, which has a composite primary key`, "RELATION_ERROR");
+    }
+    return this.primaryKey[0]!;
+  }
+
+}
+
+/**
+ * Groups relation paths by their first segment: `['posts.comments', 'posts.tags', 'roles']`
+ * becomes `posts => ['comments', 'tags']` and `roles => []`.
+ * @param paths The relation names or dotted paths.
+ */
+function groupPaths(paths: string[]): Map<string, string[]> {
+  const tree = new Map<string, string[]>();
+  for (const path of paths) {
+    const [head, ...rest] = path.split(".");
+    const nested = tree.get(head!) ?? [];
+    if (rest.length > 0) nested.push(rest.join("."));
+    tree.set(head!, nested);
+  }
+  return tree;
+}
+
+/**
+ * Returns the distinct non-null values of a key column, comparing them as strings so that
+ * numbers, bigints and numeric strings read from different drivers match.
+ * @param values The key values.
+ */
+function distinctKeys(values: any[]): any[] {
+  const seen = new Map<string, any>();
+  for (const value of values) {
+    if (value !== null && value !== undefined && !seen.has(String(value))) seen.set(String(value), value);
+  }
+  return [...seen.values()];
+}
+
+/**
+ * Groups items by a string key, preserving their order.
+ * @param items The items to group.
+ * @param key A function returning the key of an item.
+ */
+function groupBy<I>(items: I[], key: (item: I) => string): Map<string, I[]> {
+  const groups = new Map<string, I[]>();
+  for (const item of items) {
+    const group = groups.get(key(item));
+    if (group) group.push(item);
+    else groups.set(key(item), [item]);
+  }
+  return groups;
+}
+
+/**
+ * Attaches a loaded relation to an entity as an enumerable property, replacing its lazy loader.
+ * @param entity The owning entity.
+ * @param name The relation property name.
+ * @param value The related entity, `null`, or array of related entities.
+ */
+function assignRelation(entity: object, name: string, value: any): void {
+  Object.defineProperty(entity, name, { value, enumerable: true, writable: true, configurable: true });
 }
@@ -0,0 +1,93 @@
+/**
+ * @file serializer.ts
+ * @description Converts entities into plain JSON-ready objects, honouring hidden fields, renamed keys and serialization groups.
+ * @author ElectronSz
+ */
+
+import { MetadataStorage } from "./model";
+
+/**
+ * Options for `serialize`.
+ */
+export interface SerializeOptions {
+  /**
+   * The serialization groups to include (e.g. `["admin"]`). Columns and relations with `groups` are only
+   * serialized when one of their groups is requested; fields without `groups` are always serialized.
+   */
+  groups?: readonly string[];
+}
+
+/**
+ * @internal
+ * The serialization settings shared by columns and relations.
+ */
+interface FieldVisibility {
+  hidden?: boolean;
+  groups?: readonly string[];
+}
+
+/**
+ * Serializes entities into plain objects for JSON responses.
+ * Model instances keep their own enumerable properties, except `hidden` columns and relations, `encrypted` columns
+ * (unless `hidden: false`) and fields whose `groups` were not requested; `serializeAs` renames keys.
+ * Arrays and plain objects such as `paginate` and `cursorPaginate` results are serialized recursively, and
+ * bigints become strings. A relation that points back to an entity being serialized is omitted.
+ * @param value The entity, list of entities or object containing entities.
+ * @param options Optional: The serialization groups to include.
+ * @returns The serialized value.
+ * @example
+ * ```
+ * res.json(serialize(await userRepository.paginate(1, 20), { groups: ["admin"] }));
+ * ```
+ */
+export function serialize(value: any, options: SerializeOptions = {}): any {
+  return serializeValue(value, options.groups ?? [], new Set());
+}
+
+/**
+ * @internal
+ * Serializes a value, tracking the entities on the current path to break reference cycles.
+ * @param value The value to serialize.
+ * @param groups The requested serialization groups.
+ * @param ancestors The entities being serialized above this value.
+ * @returns The serialized value, or `undefined` for a reference back to an ancestor.
+ */
+function serializeValue(value: any, groups: readonly string[], ancestors: Set<object>): any {
+  if (typeof value === "bigint") return value.toString();
+  if (value === null || typeof value !== "object") return value;
+  if (Array.isArray(value)) return value.map((item) => serializeValue(item, groups, ancestors) ?? null);
+  if (ancestors.has(value)) return undefined;
+
+  const config = MetadataStorage.getModelMetadata(value.constructor);
+  const prototype = Object.getPrototypeOf(value);
+  if (!config && prototype !== Object.prototype && prototype !== null) return value; // Date, Buffer, ...
+
+  ancestors.add(value);
+  const relations = config ? MetadataStorage.getRelations(value.constructor) : {};
+  const result: Record<string, any> = {};
+  for (const [key, property] of Object.entries(value)) {
+    if (typeof property === "function") continue;
+    const column = config?.columns[key];
+    const relation = relations[key];
+    if (column && !isVisible(column, groups, !!column.encrypted)) continue;
+    if (relation && !isVisible(relation, groups, false)) continue;
+    const serialized = serializeValue(property, groups, ancestors);
+    if (serialized !== undefined) result[column?.serializeAs ?? relation?.serializeAs ?? key] = serialized;
+  }
+  ancestors.delete(value);
+  return result;
+}
+
+/**
+ * @internal
+ * Decides whether a column or relation is serialized for the requested groups.
+ * @param field The column or relation configuration.
+ * @param groups The requested serialization groups.
+ * @param hiddenByDefault Whether the field is hidden unless `hidden: false` is set (e.g. encrypted columns).
+ * @returns True if the field is serialized.
+ */
+function isVisible(field: FieldVisibility, groups: readonly string[], hiddenByDefault: boolean): boolean {
+  if (field.hidden) return false;
+  if (field.groups) return field.groups.some((group) => groups.includes(group));
+  return field.hidden === false || !hiddenByDefault;
+}
@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import { defineModel } from '../model';
+import { generateMigration } from '../migrations';
+import { DataTypes, DBType, RelationType } from '../types';
+import { createOrm } from './helpers';
+
+describe('EntityManager', () => {
+    const Writer = defineModel({
+        tableName: 'writers',
+        columns: {
+            id: { type: DataTypes.INTEGER },
+            name: { type: DataTypes.STRING },
+            email: { type: DataTypes.STRING },
+            settings: { type: DataTypes.JSON },
+        },
+        relations: [
+            { type: RelationType.OneToMany, target: () => Story, property: 'stories', inverseKey: 'writer_id' },
+        ],
+    });
+    const Story = defineModel({
+        tableName: 'stories',
+        columns: {
+            id: { type: DataTypes.INTEGER },
+            title: { type: DataTypes.STRING },
+            writerId: { name: 'writer_id', type: DataTypes.INTEGER },
+            version: { type: DataTypes.INTEGER, version: true },
+        },
+        relations: [
+            { type: RelationType.ManyToOne, target: () => Writer, property: 'writer', foreignKey: 'writer_id' },
+        ],
+    });
+    const hookCalls: string[] = [];
+    const Memo = defineModel({
+        tableName: 'memos',
+        columns: {
+            id: { type: DataTypes.INTEGER },
+            body: { type: DataTypes.STRING },
+            editedAt: { name: 'edited_at', type: DataTypes.DATETIME },
+        },
+        hooks: {
+            beforeUpdate: (memo) => {
+                memo.editedAt = new Date();
+                hookCalls.push(`beforeUpdate:${memo.body}`);
+            },
+            afterUpdate: (memo) => { hookCalls.push(`afterUpdate:${memo.body}`); },
+        },
+    });
+    const orm = createOrm();
+    const writers = orm.getRepository(Writer);
+    const stories = orm.getRepository(Story);
+    const memos = orm.getRepository(Memo);
+
+    beforeAll(async () => {
+        for (const model of [Writer, Story, Memo]) {
+            const migration = await generateMigration(model, 'init', DBType.SQLite);
+            for (const sql of migration.up) await orm.client.query(sql);
+        }
+    });
+
+    it('should return the same instance for the same record', async () => {
+        const writer = await writers.create({ name: 'Ann', email: 'ann@example.com' });
+        const em = orm.createEntityManager();
+
+        const found = (await em.find(Writer, writer.id))!;
+        const [listed] = await em.findBy(Writer, { email: 'ann@example.com' });
+        found.name = 'Changed in memory';
+
+        expect(listed).toBe(found);
+        expect(await em.find(Writer, writer.id)).toBe(found);
+        expect(listed?.name).toBe('Changed in memory');
+    });
+
+    it('should update only the changed columns without reading the record', async () => {
+        const writer = await writers.create({ name: 'Ben', email: 'ben@example.com', settings: { theme: 'dark' } });
+        const em = orm.createEntityManager();
+        const managed = (await em.find(Writer, writer.id))!;
+
+        const query = vi.spyOn(orm.client, 'query');
+        await em.flush();
+        expect(query).not.toHaveBeenCalled();
+
+        managed.name = 'Benjamin';
+        managed.settings.theme = 'light';
+        expect(em.getChanges(managed)).toEqual(['name', 'settings']);
+        await em.flush();
+        const statements = query.mock.calls.map(([sql]) => sql);
+        query.mockRestore();
+
+        expect(statements).toEqual(['UPDATE writers SET name = ?, settings = ? WHERE id = ?']);
+        expect(em.isDirty(managed)).toBe(false);
+        expect(await writers.findOne(writer.id)).toMatchObject({ name: 'Benjamin', settings: { theme: 'light' } });
+    });
+
+    it('should insert parents before children and fill their foreign keys', async () => {
+        const em = orm.createEntityManager();
+        const writer = new Writer({ name: 'Cat', email: 'cat@example.com' });
+        const first = new Story({ title: 'First', writer });
+        const second = new Story({ title: 'Second' });
+        writer.stories = [second];
+
+        em.persist(first);
+        em.persist(second);
+        em.persist(writer);
+        await em.flush();
+
+        expect(writer.id).toBeGreaterThan(0);
+        expect(first.writerId).toBe(writer.id);
+        expect(second.writerId).toBe(writer.id);
+        expect(first.version).toBe(1);
+        expect(em.contains(first)).toBe(true);
+        expect(await em.find(Story, first.id)).toBe(first);
+        expect((await stories.findBy({ writerId: writer.id })).map((s) => s.title)).toEqual(['First', 'Second']);
+    });
+
+    it('should delete children before parents', async () => {
+        const writer = await writers.create({ name: 'Dan', email: 'dan@example.com' });
+        const story = await stories.create({ title: 'Only', writerId: writer.id });
+        const em = orm.createEntityManager();
+        const managedWriter = await em.find(Writer, writer.id);
+        const managedStory = await em.find(Story, story.id);
+
+        const query = vi.spyOn(orm.client, 'query');
+        em.remove(managedWriter!);
+        em.remove(managedStory!);
+        await em.flush();
+        const deletes = query.mock.calls.map(([sql]) => sql).filter((sql) => sql.startsWith('DELETE'));
+        query.mockRestore();
+
+        expect(deletes).toEqual(['DELETE FROM stories WHERE id = ?', 'DELETE FROM writers WHERE id = ?']);
+        expect(await em.find(Writer, writer.id)).toBeNull();
+    });
+
+    it('should check and increment the version of changed entities', async () => {
+        const story = await stories.create({ title: 'Draft' });
+        const em = orm.createEntityManager();
+        const managed = (await em.find(Story, story.id))!;
+
+        managed.title = 'Edited';
+        await em.flush();
+        expect(managed.version).toBe(2);
+
+        await stories.update(story.id, { title: 'Edited elsewhere' });
+        managed.title = 'Stale edit';
+        await expect(em.flush()).rejects.toMatchObject({ code: 'OPTIMISTIC_LOCK_ERROR' });
+    });
+
+    it('should only run the update hooks of changed entities', async () => {
+        const [first, second] = await memos.bulkCreate([{ body: 'first' }, { body: 'second' }]);
+        const em = orm.createEntityManager();
+        const managed = await em.find(Memo, first!.id);
+        await em.find(Memo, second!.id);
+
+        managed!.body = 'edited';
+        await em.flush();
+
+        expect(hookCalls).toEqual(['beforeUpdate:edited', 'afterUpdate:edited']);
+        expect((await memos.findOne(first!.id))?.editedAt).toBeInstanceOf(Date);
+        expect((await memos.findOne(second!.id))?.editedAt).toBeNull();
+    });
+
+    it('should reject objects that are not model instances', () => {
+        const em = orm.createEntityManager();
+        expect(() => em.persist({ name: 'plain' })).toThrow('Entity is not an instance of a model defined with defineModel');
+    });
+});
@@ -0,0 +1,34 @@
+import { Stabilize } from '../index';
+import { DBClient } from '../client';
+import type { Logger } from '../logger';
+import { DBType, LogLevel, type DBConfig } from '../types';
+
+/** A logger that discards every message, so test runs only print test results. */
+export const silentLogger: Logger = {
+    logQuery: () => {},
+    logError: () => {},
+    logMetrics: () => {},
+    logInfo: () => {},
+    logWarn: () => {},
+    logDebug: () => {},
+};
+
+/** Creates a client on a fresh in-memory SQLite database. */
+export function createClient(): DBClient {
+    const config: DBConfig = { type: DBType.SQLite, connectionString: ':memory:' };
+    return new DBClient(config, silentLogger);
+}
+
+/** Creates an ORM instance on a fresh in-memory SQLite database. */
+export function createOrm(): Stabilize {
+    const client = createClient();
+    return new Stabilize(client.config, undefined, { level: LogLevel.Error }, client);
+}
+
+/**
+ * Types the input of a cascading `create` or `update`. Cascaded relations also take new entities without keys
+ * and the keys of existing records, which the entity type does not describe.
+ */
+export function cascadeInput<T>(input: Record<string, unknown>): Partial<T> {
+    return input as Partial<T>;
+}
@@ -0,0 +1,34 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { StabilizeLogger } from '../logger';
+import { LogLevel } from '../types';
+
+describe('StabilizeLogger', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    /** Logs one message at every level and returns the levels that reached the console. */
+    function emitted(logger: StabilizeLogger): string[] {
+        const lines: string[] = [];
+        const record = (line: string) => { lines.push(line.slice(1, line.indexOf(']'))); };
+        vi.spyOn(console, 'log').mockImplementation(record);
+        vi.spyOn(console, 'warn').mockImplementation(record);
+        vi.spyOn(console, 'error').mockImplementation(record);
+        logger.logDebug('debug');
+        logger.logQuery('SELECT 1', []);
+        logger.logInfo('info');
+        logger.logWarn('warn');
+        logger.logError(new Error('error'));
+        return lines;
+    }
+
+    it('should log messages at or above the configured level', () => {
+        expect(emitted(new StabilizeLogger({ level: LogLevel.Debug }))).toEqual(['DEBUG', 'DEBUG', 'INFO', 'WARN', 'ERROR']);
+        expect(emitted(new StabilizeLogger({ level: LogLevel.Warn }))).toEqual(['WARN', 'ERROR']);
+        expect(emitted(new StabilizeLogger({ level: LogLevel.Error }))).toEqual(['ERROR']);
+    });
+
+    it('should default to the info level', () => {
+        expect(emitted(new StabilizeLogger())).toEqual(['INFO', 'WARN', 'ERROR']);
+    });
+});
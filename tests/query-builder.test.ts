@@ -0,0 +1,437 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { QueryBuilder } from '../query-builder';
+import { DBClient } from '../client';
+import { defineModel } from '../model';
+import { DataTypes, DBType, RelationType } from '../types';
+import { createClient, silentLogger } from './helpers';
+
+const Post = defineModel({
+    tableName: 'posts',
+    columns: {
+        id: { type: DataTypes.INTEGER },
+        title: { type: DataTypes.STRING },
+        authorId: { name: 'author_id', type: DataTypes.INTEGER },
+        deletedAt: { name: 'deleted_at', type: DataTypes.DATETIME, softDelete: true },
+    },
+});
+
+const User = defineModel({
+    tableName: 'users',
+    columns: {
+        id: { type: DataTypes.INTEGER },
+        status: { type: DataTypes.STRING },
+        age: { type: DataTypes.INTEGER },
+        role: { type: DataTypes.STRING },
+        email: { type: DataTypes.STRING },
+        deletedAt: { name: 'deleted_at', type: DataTypes.DATETIME },
+    },
+});
+type UserEntity = InstanceType<typeof User>;
+type PostEntity = InstanceType<typeof Post>;
+/** A row of a table without a model. */
+type Row = Record<string, unknown>;
+
+describe('QueryBuilder.where (object criteria)', () => {
+    it('should map property names to column names and bind values in order', () => {
+        const { query, params } = new QueryBuilder<UserEntity>('users', User)
+            .where({ status: 'active', age: { gt: 21 }, role: { in: ['admin', 'editor'] }, deletedAt: null })
+            .build();
+
+        expect(query).toBe('SELECT * FROM users WHERE status = ? AND age > ? AND role IN (?, ?) AND deleted_at IS NULL');
+        expect(params).toEqual(['active', 21, 'admin', 'editor']);
+    });
+
+    it('should combine raw and object conditions with AND, keeping parameter order', () => {
+        const { query, params } = new QueryBuilder<UserEntity>('users', User)
+            .where('age >= ?', 18)
+            .where({ age: { between: [18, 65] }, role: { notIn: ['guest'] } })
+            .build();
+
+        expect(query).toBe('SELECT * FROM users WHERE (age >= ?) AND age BETWEEN ? AND ? AND role NOT IN (?)');
+        expect(params).toEqual([18, 18, 65, 'guest']);
+    });
+
+    it('should render ilike per dialect', () => {
+        const qb = new QueryBuilder<UserEntity>('users', User).where({ email: { ilike: '%@example.com' } });
+
+        expect(qb.build(DBType.Postgres).query).toBe('SELECT * FROM users WHERE email ILIKE ?');
+        expect(qb.build(DBType.MySQL).query).toBe('SELECT * FROM users WHERE LOWER(email) LIKE LOWER(?)');
+        expect(qb.build(DBType.SQLite).query).toBe('SELECT * FROM users WHERE LOWER(email) LIKE LOWER(?)');
+    });
+
+    it('should handle null operators and empty IN lists', () => {
+        const { query, params } = new QueryBuilder<UserEntity>('users', User)
+            .where({ deletedAt: { isNull: false }, role: { ne: null }, status: { in: [] } })
+            .build();
+
+        expect(query).toBe('SELECT * FROM users WHERE deleted_at IS NOT NULL AND role IS NOT NULL AND 1 = 0');
+        expect(params).toEqual([]);
+    });
+
+    it('should only accept entity properties, and other columns through whereColumns', () => {
+        const qb = new QueryBuilder<UserEntity>('users', User);
+        // @ts-expect-error misspelled property
+        qb.where({ stauts: 'active' });
+        // @ts-expect-error wrong value type for the operator
+        qb.where({ age: { gt: 'old' } });
+        // @ts-expect-error unknown operator
+        qb.where({ role: { contains: 'admin' } });
+
+        const { query, params } = new QueryBuilder<UserEntity>('users', User)
+            .leftJoin('posts', 'posts.author_id = users.id')
+            .where({ status: 'active' })
+            .whereColumns({ 'posts.title': { like: 'ORM%' }, deletedAt: null })
+            .build();
+        expect(query).toBe('SELECT * FROM users LEFT JOIN posts ON posts.author_id = users.id WHERE status = ? AND posts.title LIKE ? AND deleted_at IS NULL');
+        expect(params).toEqual(['active', 'ORM%']);
+    });
+});
+
+describe('QueryBuilder grouped OR / NOT conditions', () => {
+    it('should render (a OR b) AND NOT c with parameters in placeholder order', () => {
+        const { query, params } = new QueryBuilder<UserEntity>('users', User)
+            .where(qb => qb.where({ role: 'admin' }).orWhere('age > ?', 30))
+            .whereNot({ status: 'banned' })
+            .build();
+
+        expect(query).toBe('SELECT * FROM users WHERE (role = ? OR (age > ?)) AND NOT (status = ?)');
+        expect(params).toEqual(['admin', 30, 'banned']);
+    });
+
+    it('should keep the soft delete filter outside of OR conditions', () => {
+        const { query, params } = new QueryBuilder<PostEntity>('posts', Post)
+            .where({ authorId: 1 })
+            .orWhere({ title: { like: 'Draft%' } })
+            .build();
+
+        expect(query).toBe('SELECT * FROM posts WHERE deleted_at IS NULL AND (author_id = ? OR title LIKE ?)');
+        expect(params).toEqual([1, 'Draft%']);
+    });
+
+    it('should skip empty groups', () => {
+        const { query } = new QueryBuilder<UserEntity>('users', User)
+            .where(() => undefined)
+            .where({ status: 'active' })
+            .build();
+
+        expect(query).toBe('SELECT * FROM users WHERE status = ?');
+    });
+});
+
+describe('QueryBuilder aggregates', () => {
+    const Order = defineModel({
+        tableName: 'orders',
+        columns: {
+            id: { type: DataTypes.INTEGER },
+            status: { type: DataTypes.STRING },
+            amount: { type: DataTypes.DECIMAL },
+            code: { type: DataTypes.STRING },
+            deletedAt: { name: 'deleted_at', type: DataTypes.DATETIME, softDelete: true },
+        },
+    });
+    type OrderEntity = InstanceType<typeof Order>;
+    const client = createClient();
+
+    beforeAll(async () => {
+        await client.query('CREATE TABLE orders (id INTEGER PRIMARY KEY AUTOINCREMENT, status TEXT, amount NUMERIC, code TEXT, deleted_at TEXT)');
+        await client.query(
+            'INSERT INTO orders (status, amount, code, deleted_at) VALUES (?, ?, ?, NULL), (?, ?, ?, NULL), (?, ?, ?, NULL), (?, ?, ?, ?)',
+            ['paid', 100, '00123', 'paid', 50.5, '0x10', 'pending', 20, '1e3', 'paid', 999, '00001', '2025-01-01'],
+        );
+    });
+
+    it('should build GROUP BY and HAVING with parameters after the WHERE parameters', () => {
+        const { query, params } = new QueryBuilder<OrderEntity>('orders', Order)
+            .where('amount > ?', 10)
+            .groupBy('status')
+            .aggregate('sum', 'amount', 'revenue')
+            .having('SUM(amount) > ?', 100)
+            .build();
+
+        expect(query).toBe('SELECT status, SUM(amount) AS "revenue" FROM orders WHERE deleted_at IS NULL AND (amount > ?) GROUP BY status HAVING SUM(amount) > ?');
+        expect(params).toEqual([10, 100]);
+    });
+
+    it('should quote aggregate and subquery aliases for each dialect', () => {
+        const build = (dbType: DBType) => new QueryBuilder<OrderEntity>('orders', Order)
+            .groupBy('status')
+            .aggregate('sum', 'amount', 'totalRevenue')
+            .selectSubquery(new QueryBuilder<Row>('refunds').aggregate('count', '*', 'refundCount'), 'refunds')
+            .build(dbType).query;
+
+        expect(build(DBType.Postgres)).toBe(
+            'SELECT status, SUM(amount) AS "totalRevenue", (SELECT COUNT(*) AS "refundCount" FROM refunds) AS "refunds" FROM orders WHERE deleted_at IS NULL GROUP BY status',
+        );
+        expect(build(DBType.SQLite)).toBe(
+            'SELECT status, SUM(amount) AS "totalRevenue", (SELECT COUNT(*) AS "refundCount" FROM refunds) AS "refunds" FROM orders WHERE deleted_at IS NULL GROUP BY status',
+        );
+        expect(build(DBType.MySQL)).toBe(
+            'SELECT status, SUM(amount) AS `totalRevenue`, (SELECT COUNT(*) AS `refundCount` FROM refunds) AS `refunds` FROM orders WHERE deleted_at IS NULL GROUP BY status',
+        );
+    });
+
+    it('should return typed, numeric aggregate rows', async () => {
+        const rows = await new QueryBuilder<OrderEntity>('orders', Order, client)
+            .groupBy('status')
+            .aggregate('count', '*', 'orders')
+            .aggregate('sum', 'amount', 'revenue')
+            .orderBy('status ASC')
+            .execute();
+
+        expect(rows).toEqual([
+            { status: 'paid', orders: 2, revenue: 150.5 },
+            { status: 'pending', orders: 1, revenue: 20 },
+        ]);
+    });
+
+    it('should execute terminal helpers and ignore ORDER BY / LIMIT', async () => {
+        const qb = new QueryBuilder<OrderEntity>('orders', Order, client).orderBy('amount DESC').limit(1);
+
+        expect(await qb.count()).toBe(3);
+        expect(await qb.sum('amount')).toBe(170.5);
+        expect(await qb.max('amount')).toBe(100);
+        expect(await qb.clone().where({ status: 'refunded' }).avg('amount')).toBeNull();
+        expect(await new QueryBuilder<OrderEntity>('orders', Order, client).groupBy('status').count()).toBe(2);
+    });
+
+    it('should keep MIN and MAX over text columns as strings', async () => {
+        const qb = new QueryBuilder<OrderEntity>('orders', Order, client);
+        const [row] = await qb.clone().aggregate('min', 'code', 'lowest').aggregate('max', 'amount', 'highest').execute();
+
+        expect(await qb.min<string>('code')).toBe('00123');
+        expect(await qb.max<string>('code')).toBe('1e3');
+        expect(row).toEqual({ lowest: '00123', highest: 100 });
+    });
+});
+
+describe('QueryBuilder subqueries', () => {
+    it('should merge subquery parameters in placeholder order', () => {
+        const recentAuthors = new QueryBuilder<PostEntity>('posts', Post)
+            .select('author_id')
+            .where({ title: { like: 'News%' } });
+
+        const { query, params } = new QueryBuilder<UserEntity>('users', User)
+            .selectSubquery(new QueryBuilder<PostEntity>('posts', Post).aggregate('count', '*', 'n').where('posts.author_id = users.id AND posts.title <> ?', ''), 'postCount')
+            .where({ status: 'active' })
+            .whereIn('id', recentAuthors)
+            .whereNotExists(new QueryBuilder<Row>('bans').select('1').where('bans.user_id = users.id AND bans.reason = ?', 'spam'))
+            .build();
+
+        expect(query).toBe(
+            'SELECT *, (SELECT COUNT(*) AS "n" FROM posts WHERE deleted_at IS NULL AND (posts.author_id = users.id AND posts.title <> ?)) AS "postCount" ' +
+            'FROM users WHERE status = ? AND id IN (SELECT author_id FROM posts WHERE deleted_at IS NULL AND (title LIKE ?)) ' +
+            'AND NOT EXISTS (SELECT 1 FROM bans WHERE bans.user_id = users.id AND bans.reason = ?)',
+        );
+        expect(params).toEqual(['', 'active', 'News%', 'spam']);
+
+        // DBClient renumbers `?` sequentially for Postgres, which lines up with the merged params.
+        let index = 0;
+        const pgQuery = query.replace(/\?/g, () => `$${++index}`);
+        expect(index).toBe(params.length);
+        expect(pgQuery).toContain('posts.title <> $1');
+        expect(pgQuery).toContain('bans.reason = $4');
+    });
+
+    it('should select from a derived table', () => {
+        const totals = new QueryBuilder<PostEntity>('posts', Post).groupBy('authorId').aggregate('count', '*', 'total');
+        const { query, params } = new QueryBuilder<PostEntity>('posts', Post)
+            .fromSubquery(totals, 'totals')
+            .where('totals.total > ?', 5)
+            .build();
+
+        expect(query).toBe('SELECT * FROM (SELECT author_id, COUNT(*) AS "total" FROM posts WHERE deleted_at IS NULL GROUP BY author_id) totals WHERE totals.total > ?');
+        expect(params).toEqual([5]);
+    });
+});
+
+describe('QueryBuilder joins', () => {
+    const Role = defineModel({ tableName: 'roles', columns: { id: { type: DataTypes.INTEGER }, name: { type: DataTypes.STRING } } });
+    const Profile = defineModel({ tableName: 'profiles', columns: { id: { type: DataTypes.INTEGER }, userId: { type: DataTypes.INTEGER } } });
+    const Member = defineModel({
+        tableName: 'members',
+        columns: { id: { type: DataTypes.INTEGER }, profileId: { type: DataTypes.INTEGER } },
+        relations: [
+            { type: RelationType.ManyToMany, target: () => Role, property: 'roles', joinTable: 'member_roles', foreignKey: 'member_id', inverseKey: 'role_id' },
+            { type: RelationType.ManyToOne, target: () => Profile, property: 'profile', foreignKey: 'profileId' },
+            { type: RelationType.OneToMany, target: () => Post, property: 'posts', inverseKey: 'author_id' },
+        ],
+    });
+    type MemberEntity = InstanceType<typeof Member>;
+
+    it('should render every join type with aliases', () => {
+        const { query } = new QueryBuilder<MemberEntity>('members', Member)
+            .innerJoin('profiles', 'p.userId = members.id', 'p')
+            .rightJoin('teams', 'teams.id = members.id')
+            .crossJoin('currencies', 'c')
+            .join('orgs', 'orgs.id = members.id')
+            .build();
+
+        expect(query).toBe(
+            'SELECT * FROM members INNER JOIN profiles p ON p.userId = members.id RIGHT JOIN teams ON teams.id = members.id ' +
+            'CROSS JOIN currencies c LEFT JOIN orgs ON orgs.id = members.id',
+        );
+    });
+
+    it('should resolve ON clauses from relation metadata', () => {
+        const { query } = new QueryBuilder<MemberEntity>('members', Member)
+            .joinRelation('roles', { type: 'inner', alias: 'r' })
+            .joinRelation('profile')
+            .joinRelation('posts')
+            .build();
+
+        expect(query).toBe(
+            'SELECT * FROM members INNER JOIN member_roles ON member_roles.member_id = members.id ' +
+            'INNER JOIN roles r ON r.id = member_roles.role_id ' +
+            'LEFT JOIN profiles ON members.profileId = profiles.id ' +
+            'LEFT JOIN posts ON posts.author_id = members.id',
+        );
+    });
+
+    it('should throw for unknown relations', () => {
+        expect(() => new QueryBuilder<MemberEntity>('members', Member).joinRelation('nope')).toThrow('Relation nope not found');
+    });
+});
+
+describe('QueryBuilder.cursorPaginate', () => {
+    const Event = defineModel({
+        tableName: 'events',
+        columns: {
+            id: { type: DataTypes.INTEGER },
+            kind: { type: DataTypes.STRING },
+            occurredAt: { name: 'occurred_at', type: DataTypes.DATETIME },
+        },
+    });
+    type EventEntity = InstanceType<typeof Event>;
+    const client = createClient();
+
+    beforeAll(async () => {
+        await client.query('CREATE TABLE events (id INTEGER PRIMARY KEY AUTOINCREMENT, kind TEXT, occurred_at TEXT)');
+        // Duplicate timestamps exercise the id tiebreaker.
+        const days = ['2025-01-03', '2025-01-01', '2025-01-02', '2025-01-02', '2025-01-01', '2025-01-03', '2025-01-02'];
+        for (const day of days) {
+            await client.query('INSERT INTO events (kind, occurred_at) VALUES (?, ?)', [day === '2025-01-01' ? 'login' : 'click', day]);
+        }
+    });
+
+    it('should walk every row exactly once across pages', async () => {
+        const seen: number[] = [];
+        let after: string | null = null;
+        let pages = 0;
+        do {
+            const page = await new QueryBuilder<EventEntity>('events', Event, client)
+                .orderBy('occurredAt DESC')
+                .cursorPaginate({ first: 3, after });
+            seen.push(...page.edges.map((edge) => edge.node.id));
+            after = page.pageInfo.hasNextPage ? page.pageInfo.endCursor : null;
+            pages++;
+        } while (after);
+
+        expect(pages).toBe(3);
+        expect(seen).toEqual([1, 6, 3, 4, 7, 2, 5]);
+    });
+
+    it('should keep OR conditions grouped with the keyset condition', async () => {
+        const qb = () => new QueryBuilder<EventEntity>('events', Event, client)
+            .where({ kind: 'login' })
+            .orWhere({ id: 1 })
+            .orderBy('id ASC');
+        const first = await qb().cursorPaginate({ first: 1 });
+        const second = await qb().cursorPaginate({ first: 5, after: first.pageInfo.endCursor });
+
+        expect(first.edges.map((edge) => edge.node.id)).toEqual([1]);
+        expect(second.edges.map((edge) => edge.node.id)).toEqual([2, 5]);
+        expect(second.pageInfo).toEqual({ hasNextPage: false, endCursor: second.edges[1]!.cursor });
+    });
+
+    it('should reject malformed cursors', async () => {
+        const qb = new QueryBuilder<EventEntity>('events', Event, client).orderBy('occurredAt DESC');
+        await expect(qb.cursorPaginate({ first: 2, after: 'not-a-cursor' })).rejects.toThrow('Invalid pagination cursor');
+    });
+
+    it('should require the sort key columns in the select list', async () => {
+        const projected = new QueryBuilder<EventEntity>('events', Event, client).orderBy('occurredAt DESC');
+        await expect(projected.clone().select(['kind']).cursorPaginate({ first: 2 }))
+            .rejects.toThrow('cursorPaginate requires the sort key columns in the select list, missing: occurred_at, events.id');
+
+        const page = await projected.clone().select(['id', 'occurredAt']).cursorPaginate({ first: 2 });
+        expect(page.edges.map((edge) => edge.node.id)).toEqual([1, 6]);
+    });
+});
+
+describe('QueryBuilder streaming', () => {
+    const Item = defineModel({ tableName: 'items', columns: { id: { type: DataTypes.INTEGER }, label: { type: DataTypes.STRING } } });
+    const client = createClient();
+    const hydrate = (row: ItemEntity) => ({ ...row, label: row.label?.toUpperCase() });
+
+    beforeAll(async () => {
+        await client.query('CREATE TABLE items (id INTEGER PRIMARY KEY AUTOINCREMENT, label TEXT)');
+        for (let i = 1; i <= 7; i++) {
+            await client.query('INSERT INTO items (label) VALUES (?)', [`item ${i}`]);
+        }
+    });
+    type ItemEntity = InstanceType<typeof Item>;
+
+    it('should stream hydrated rows with for await', async () => {
+        const labels: string[] = [];
+        for await (const row of new QueryBuilder<ItemEntity>('items', Item, client, hydrate).where({ id: { gt: 5 } })) {
+            labels.push(row.label!);
+        }
+        expect(labels).toEqual(['ITEM 6', 'ITEM 7']);
+    });
+
+    it('should process rows in chunks and stop when the callback returns false', async () => {
+        const sizes: number[] = [];
+        await new QueryBuilder<ItemEntity>('items', Item, client).orderBy('id ASC').chunk(3, (rows) => {
+            sizes.push(rows.length);
+        });
+        expect(sizes).toEqual([3, 3, 1]);
+
+        const firstIds: number[] = [];
+        await new QueryBuilder<ItemEntity>('items', Item, client).orderBy('id ASC').chunk(2, (rows) => {
+            firstIds.push(rows[0]!.id);
+            return false;
+        });
+        expect(firstIds).toEqual([1]);
+        expect(await new QueryBuilder<ItemEntity>('items', Item, client).count()).toBe(7);
+    });
+});
+
+describe('QueryBuilder row locking', () => {
+    it('should render lock clauses for Postgres and MySQL', () => {
+        const forUpdate = new QueryBuilder<Row>('jobs').where({ status: 'pending' }).limit(5).skipLocked().build(DBType.Postgres);
+        expect(forUpdate.query).toBe('SELECT * FROM jobs WHERE status = ? LIMIT 5 FOR UPDATE SKIP LOCKED');
+
+        const forShare = new QueryBuilder<Row>('jobs').forShare().noWait().build(DBType.MySQL);
+        expect(forShare.query).toBe('SELECT * FROM jobs FOR SHARE NOWAIT');
+    });
+
+    it('should omit lock clauses on SQLite', () => {
+        expect(new QueryBuilder<Row>('jobs').forUpdate().build(DBType.SQLite).query).toBe('SELECT * FROM jobs');
+    });
+
+    it('should refuse locking reads outside a transaction client', async () => {
+        const client = new DBClient({ type: DBType.Postgres, connectionString: 'postgres://localhost/stabilize' }, silentLogger);
+        await expect(new QueryBuilder<Row>('jobs', undefined, client).forUpdate().execute())
+            .rejects.toMatchObject({ code: 'LOCK_ERROR' });
+        await client.close();
+    });
+});
+
+describe('QueryBuilder projections', () => {
+    it('should map selected properties to column names', () => {
+        const { query } = new QueryBuilder<PostEntity>('posts', Post).select(['id', 'authorId']).build();
+        expect(query).toBe('SELECT id, author_id FROM posts WHERE deleted_at IS NULL');
+    });
+
+    it('should render DISTINCT and count distinct rows', async () => {
+        const client = createClient();
+        await client.query('CREATE TABLE visits (id INTEGER PRIMARY KEY, country TEXT)');
+        for (const country of ['SZ', 'ZA', 'SZ']) await client.query('INSERT INTO visits (country) VALUES (?)', [country]);
+
+        const countries = new QueryBuilder<Row>('visits', undefined, client).select(['country']).distinct();
+        expect(countries.build().query).toBe('SELECT DISTINCT country FROM visits');
+        expect(await countries.clone().orderBy('country').execute()).toEqual([{ country: 'SZ' }, { country: 'ZA' }]);
+        expect(await countries.count()).toBe(2);
+        await client.close();
+    });
+});
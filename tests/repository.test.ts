@@ -0,0 +1,1191 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import { defineModel } from '../model';
+import { generateMigration } from '../migrations';
+import { registerHooks } from '../hooks';
+import { registerColumnType } from '../utils/column-types';
+import { serialize } from '../serializer';
+import { ValidationError, unique } from '../validation';
+import { DataTypes, DBType, RelationType } from '../types';
+import { cascadeInput, createClient, createOrm } from './helpers';
+
+describe('Repository hydration', () => {
+    const Account = defineModel({
+        tableName: 'accounts',
+        columns: {
+            id: { type: DataTypes.INTEGER },
+            email: { type: DataTypes.STRING },
+            isActive: { name: 'is_active', type: DataTypes.BOOLEAN },
+            settings: { type: DataTypes.JSON },
+            balance: { type: DataTypes.DECIMAL },
+            externalId: { name: 'external_id', type: DataTypes.BIGINT },
+            avatar: { type: DataTypes.BLOB },
+            birthday: { type: DataTypes.DATE },
+            lastSeenAt: { name: 'last_seen_at', type: DataTypes.DATETIME },
+        },
+    });
+    const orm = createOrm();
+    const repo = orm.getRepository(Account);
+
+    beforeAll(async () => {
+        await orm.client.query(
+            'CREATE TABLE accounts (id INTEGER PRIMARY KEY AUTOINCREMENT, email TEXT, is_active INTEGER, settings TEXT, balance NUMERIC, ' +
+            'external_id INTEGER, avatar BLOB, birthday TEXT, last_seen_at TEXT)',
+        );
+    });
+
+    it('should return model instances with coerced values that round-trip', async () => {
+        const lastSeenAt = new Date('2025-03-04T05:06:07.000Z');
+        const created = await repo.create({
+            email: 'a@example.com',
+            isActive: true,
+            settings: { theme: 'dark', tags: ['a'] },
+            balance: '10.25',
+            externalId: 1234567890123n,
+            avatar: Buffer.from([1, 2, 3]),
+            birthday: new Date('1990-05-06T00:00:00.000Z'),
+            lastSeenAt,
+        });
+
+        expect(created).toBeInstanceOf(Account);
+        expect(created.isActive).toBe(true);
+        expect(created.settings).toEqual({ theme: 'dark', tags: ['a'] });
+        expect(created.balance).toBe('10.25');
+        expect(created.externalId).toBe(1234567890123n);
+        expect(Buffer.isBuffer(created.avatar)).toBe(true);
+        expect([...created.avatar!]).toEqual([1, 2, 3]);
+        expect(created.birthday!.toISOString()).toBe('1990-05-06T00:00:00.000Z');
+        expect(created.lastSeenAt!.getTime()).toBe(lastSeenAt.getTime());
+
+        const updated = await repo.update(created.id, { isActive: false, settings: { theme: 'light' } });
+        expect(updated.isActive).toBe(false);
+        expect(updated.settings).toEqual({ theme: 'light' });
+        expect(updated.lastSeenAt).toBeInstanceOf(Date);
+    });
+
+    it('should serialize criteria values by column type', async () => {
+        const found = await repo
+            .find()
+            .where({ isActive: false, lastSeenAt: { lt: new Date('2030-01-01T00:00:00.000Z') } })
+            .execute();
+
+        expect(found.map((a) => a.email)).toEqual(['a@example.com']);
+    });
+});
+
+describe('Repository eager loading', () => {
+    const Author = defineModel({
+        tableName: 'authors',
+        columns: {
+            id: { type: DataTypes.INTEGER },
+            name: { type: DataTypes.STRING },
+            profileId: { name: 'profile_id', type: DataTypes.INTEGER },
+        },
+        relations: [
+            { type: RelationType.ManyToOne, target: () => Profile, property: 'profile', foreignKey: 'profile_id' },
+            { type: RelationType.OneToMany, target: () => Article, property: 'articles', inverseKey: 'author_id' },
+            { type: RelationType.ManyToMany, target: () => Tag, property: 'tags', joinTable: 'author_tags', foreignKey: 'author_id', inverseKey: 'tag_id' },
+        ],
+    });
+    const Profile = defineModel({
+        tableName: 'profiles',
+        columns: { id: { type: DataTypes.INTEGER }, bio: { type: DataTypes.STRING } },
+    });
+    const Article = defineModel({
+        tableName: 'articles',
+        columns: {
+            id: { type: DataTypes.INTEGER },
+            title: { type: DataTypes.STRING },
+            authorId: { name: 'author_id', type: DataTypes.INTEGER },
+            deletedAt: { name: 'deleted_at', type: DataTypes.DATETIME, softDelete: true },
+        },
+        relations: [
+            { type: RelationType.OneToMany, target: () => Remark, property: 'remarks', inverseKey: 'article_id' },
+        ],
+    });
+    const Remark = defineModel({
+        tableName: 'remarks',
+        columns: {
+            id: { type: DataTypes.INTEGER },
+            body: { type: DataTypes.STRING },
+            articleId: { name: 'article_id', type: DataTypes.INTEGER },
+            authorId: { name: 'author_id', type: DataTypes.INTEGER },
+        },
+        relations: [
+            { type: RelationType.ManyToOne, target: () => Author, property: 'author', foreignKey: 'author_id' },
+        ],
+    });
+    const Tag = defineModel({
+        tableName: 'tags',
+        columns: { id: { type: DataTypes.INTEGER }, label: { type: DataTypes.STRING } },
+    });
+    // Lazy loader methods are added at runtime and are not part of the inferred entity type.
+    type LazyAuthor = Omit<InstanceType<typeof Author>, 'articles'> & { articles: () => Promise<InstanceType<typeof Article>[]> };
+    const lazy = (author: InstanceType<typeof Author> | null | undefined) => author as unknown as LazyAuthor;
+
+    const orm = createOrm();
+    const repo = orm.getRepository(Author);
+
+    beforeAll(async () => {
+        for (const sql of [
+            'CREATE TABLE profiles (id INTEGER PRIMARY KEY, bio TEXT)',
+            'CREATE TABLE authors (id INTEGER PRIMARY KEY, name TEXT, profile_id INTEGER)',
+            'CREATE TABLE articles (id INTEGER PRIMARY KEY, title TEXT, author_id INTEGER, deleted_at TEXT)',
+            'CREATE TABLE remarks (id INTEGER PRIMARY KEY, body TEXT, article_id INTEGER, author_id INTEGER)',
+            'CREATE TABLE tags (id INTEGER PRIMARY KEY, label TEXT)',
+            'CREATE TABLE author_tags (author_id INTEGER, tag_id INTEGER)',
+            "INSERT INTO profiles VALUES (1, 'Writes things')",
+            "INSERT INTO authors VALUES (1, 'Ann', 1), (2, 'Bob', NULL)",
+            "INSERT INTO articles VALUES (1, 'First', 1, NULL), (2, 'Second', 1, NULL), (3, 'Gone', 1, '2024-01-01T00:00:00.000Z')",
+            "INSERT INTO remarks VALUES (1, 'Nice', 1, 2), (2, 'Thanks', 1, 1)",
+            "INSERT INTO tags VALUES (1, 'sql'), (2, 'bun')",
+            'INSERT INTO author_tags VALUES (1, 1), (1, 2), (2, 2)',
+        ]) {
+            await orm.client.query(sql);
+        }
+    });
+
+    it('should attach every relation type under its property', async () => {
+        const ann = await repo.findOneOrFail(1, { relations: ['profile', 'articles', 'tags'] });
+
+        expect(ann.profile).toBeInstanceOf(Profile);
+        expect(ann.profile?.bio).toBe('Writes things');
+        expect(ann.articles?.map((a) => a.title)).toEqual(['First', 'Second']);
+        expect(ann.tags?.map((t) => t.label)).toEqual(['sql', 'bun']);
+    });
+
+    it('should load nested paths with one query per relation', async () => {
+        const spy = vi.spyOn(orm.client, 'query');
+        const [ann, bob] = await repo.find().with('articles.remarks.author', 'tags').orderBy('id ASC').execute();
+        const queries = spy.mock.calls.length;
+        spy.mockRestore();
+
+        // authors, articles, remarks, remark authors, author_tags, tags
+        expect(queries).toBe(6);
+        expect(ann?.articles?.[0]?.remarks?.map((r) => r.author?.name)).toEqual(['Bob', 'Ann']);
+        expect(ann?.articles?.[1]?.remarks).toEqual([]);
+        expect(bob?.articles).toEqual([]);
+        expect(bob?.profileId).toBeNull();
+        expect(bob?.tags?.map((t) => t.label)).toEqual(['bun']);
+    });
+
+    it('should load relations lazily and batch lookups made in the same tick', async () => {
+        const authors = await repo.find().orderBy('id ASC').execute();
+        expect(Object.keys(authors[0]!)).not.toContain('articles');
+
+        const spy = vi.spyOn(orm.client, 'query');
+        const [annArticles, bobArticles] = await Promise.all(authors.map((author) => lazy(author).articles()));
+        const tags = await repo.load(authors, 'tags');
+        const queries = spy.mock.calls.length;
+        spy.mockRestore();
+
+        expect(queries).toBe(3);
+        expect(annArticles?.map((a) => a.title)).toEqual(['First', 'Second']);
+        expect(bobArticles).toEqual([]);
+        expect(tags.map((t) => t.length)).toEqual([2, 1]);
+        expect(authors[1]?.tags?.[0]?.label).toBe('bun');
+        expect(typeof authors[0]?.articles).toBe('function');
+    });
+
+    it('should lazy load with the client the entity was read with', async () => {
+        const other = createClient();
+        for (const sql of [
+            'CREATE TABLE authors (id INTEGER PRIMARY KEY, name TEXT, profile_id INTEGER)',
+            'CREATE TABLE articles (id INTEGER PRIMARY KEY, title TEXT, author_id INTEGER, deleted_at TEXT)',
+            "INSERT INTO authors VALUES (1, 'Ann', NULL)",
+            "INSERT INTO articles VALUES (1, 'Elsewhere', 1, NULL)",
+        ]) {
+            await other.query(sql);
+        }
+        const [found] = await repo.find().where({ id: 1 }).execute(other);
+        const ann = await repo.findOne(1, {}, other);
+
+        expect((await lazy(found).articles()).map((a) => a.title)).toEqual(['Elsewhere']);
+        expect((await lazy(ann).articles()).map((a) => a.title)).toEqual(['Elsewhere']);
+    });
+
+    it('should memoize results per entity in a batcher', async () => {
+        const ann = await repo.findOneOrFail(1);
+        const loader = repo.createBatcher();
+        const spy = vi.spyOn(orm.client, 'query');
+        const first = await loader.load(ann, 'profile');
+        const second = await loader.load(ann, 'profile');
+        const queries = spy.mock.calls.length;
+        spy.mockRestore();
+
+        expect(queries).toBe(1);
+        expect(second).toBe(first);
+        expect(first.bio).toBe('Writes things');
+    });
+
+    it('should reject unknown relations', async () => {
+        await expect(repo.findOne(1, { relations: ['articles.nope'] })).rejects.toThrow('Relation nope not found on articles');
+    });
+});
+
+describe('Repository cascade saves', () => {
+    const Member = defineModel({
+        tableName: 'members',
+        columns: {
+            id: { type: DataTypes.INTEGER },
+            name: { type: DataTypes.STRING },
+            badgeId: { name: 'badge_id', type: DataTypes.INTEGER },
+        },
+        relations: [
+            { type: RelationType.ManyToOne, target: () => Badge, property: 'badge', foreignKey: 'badge_id' },
+            { type: RelationType.OneToMany, target: () => Note, property: 'notes', inverseKey: 'member_id' },
+            { type: RelationType.ManyToMany, target: () => Group, property: 'groups', joinTable: 'member_groups', foreignKey: 'member_id', inverseKey: 'group_id' },
+        ],
+    });
+    const Badge = defineModel({
+        tableName: 'badges',
+        columns: { id: { type: DataTypes.INTEGER }, label: { type: DataTypes.STRING } },
+    });
+    const Note = defineModel({
+        tableName: 'notes',
+        columns: {
+            id: { type: DataTypes.INTEGER },
+            text: { type: DataTypes.STRING },
+            memberId: { name: 'member_id', type: DataTypes.INTEGER },
+        },
+    });
+    const Group = defineModel({
+        tableName: 'groups_',
+        columns: { id: { type: DataTypes.INTEGER }, title: { type: DataTypes.STRING } },
+    });
+    type MemberEntity = InstanceType<typeof Member>;
+
+    const orm = createOrm();
+    const repo = orm.getRepository(Member);
+
+    beforeAll(async () => {
+        for (const sql of [
+            'CREATE TABLE badges (id INTEGER PRIMARY KEY AUTOINCREMENT, label TEXT)',
+            'CREATE TABLE members (id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT, badge_id INTEGER)',
+            'CREATE TABLE notes (id INTEGER PRIMARY KEY AUTOINCREMENT, text TEXT, member_id INTEGER)',
+            'CREATE TABLE groups_ (id INTEGER PRIMARY KEY AUTOINCREMENT, title TEXT)',
+            'CREATE TABLE member_groups (member_id INTEGER, group_id INTEGER)',
+            "INSERT INTO groups_ (title) VALUES ('staff'), ('admins'), ('guests')",
+        ]) {
+            await orm.client.query(sql);
+        }
+    });
+
+    it('should insert nested entities and join rows with create', async () => {
+        // Cascaded relations also accept new entities without keys and the IDs of existing ones.
+        const member = await repo.create(
+            cascadeInput<MemberEntity>({ name: 'Ann', badge: { label: 'gold' }, notes: [{ text: 'hi' }, { text: 'bye' }], groups: [1, { title: 'new' }] }),
+            { cascade: ['badge', 'notes', 'groups'] },
+        );
+
+        expect(member.badgeId).toBe(member.badge?.id);
+        expect(member.notes?.map((n) => n.memberId)).toEqual([member.id, member.id]);
+
+        const reloaded = await repo.findOneOrFail(member.id, { relations: ['badge', 'notes', 'groups'] });
+        expect(reloaded.badge?.label).toBe('gold');
+        expect(reloaded.notes?.map((n) => n.text)).toEqual(['hi', 'bye']);
+        expect(reloaded.groups?.map((g) => g.title)).toEqual(['staff', 'new']);
+    });
+
+    it('should replace many-to-many links when cascading an update', async () => {
+        const member = await repo.create(cascadeInput<MemberEntity>({ name: 'Bob', groups: [1, 2] }), { cascade: ['groups'] });
+        await repo.update(member.id, cascadeInput<MemberEntity>({ groups: [2, 3] }), { cascade: ['groups'] });
+
+        const reloaded = await repo.findOneOrFail(member.id, { relations: ['groups'] });
+        expect(reloaded.groups?.map((g) => g.id)).toEqual([2, 3]);
+    });
+
+    it('should attach, detach and sync join table rows', async () => {
+        const member = await repo.create({ name: 'Cid' });
+
+        expect(await repo.attach(member.id, 'groups', [1, 2])).toEqual([1, 2]);
+        expect(await repo.attach(member.id, 'groups', 2)).toEqual([]);
+        await repo.detach(member.id, 'groups', 1);
+        expect(await repo.sync(member.id, 'groups', [1, 3])).toEqual({ attached: [1, 3], detached: [2] });
+
+        const reloaded = await repo.findOneOrFail(member.id, { relations: ['groups'] });
+        expect(reloaded.groups?.map((g) => g.id).sort()).toEqual([1, 3]);
+
+        await repo.detach(member.id, 'groups');
+        expect(await repo.load(reloaded, 'groups')).toEqual([]);
+        await expect(repo.attach(member.id, 'notes', 1)).rejects.toThrow('not a many-to-many relation');
+    });
+});
+
+describe('Repository primary keys', () => {
+    const OrderLine = defineModel({
+        tableName: 'order_lines',
+        primaryKey: ['tenantId', 'orderNo'],
+        versioned: true,
+        columns: {
+            tenantId: { name: 'tenant_id', type: DataTypes.INTEGER },
+            orderNo: { name: 'order_no', type: DataTypes.STRING },
+            quantity: { type: DataTypes.INTEGER },
+        },
+    });
+    const Currency = defineModel({
+        tableName: 'currencies',
+        columns: {
+            code: { type: DataTypes.STRING, primaryKey: true },
+            name: { type: DataTypes.STRING },
+        },
+    });
+
+    const orm = createOrm();
+    const lines = orm.getRepository(OrderLine);
+    const currencies = orm.getRepository(Currency);
+
+    beforeAll(async () => {
+        for (const model of [OrderLine, Currency]) {
+            const migration = await generateMigration(model, 'init', DBType.SQLite);
+            for (const sql of migration.up) await orm.client.query(sql);
+        }
+    });
+
+    it('should generate primary key constraints in migrations', async () => {
+        const composite = await generateMigration(OrderLine, 'init', DBType.SQLite);
+        const natural = await generateMigration(Currency, 'init', DBType.SQLite);
+
+        expect(composite.up[0]).toContain('PRIMARY KEY (tenant_id, order_no)');
+        expect(composite.up[1]).not.toContain('PRIMARY KEY');
+        expect(natural.up[0]).toContain('code TEXT PRIMARY KEY');
+    });
+
+    it('should create, update, find and delete by a composite key', async () => {
+        const created = await lines.create({ tenantId: 1, orderNo: 'A-1', quantity: 2 });
+        await lines.create({ tenantId: 2, orderNo: 'A-1', quantity: 5 });
+        expect(created.quantity).toBe(2);
+
+        const updated = await lines.update({ tenantId: 1, orderNo: 'A-1' }, { quantity: 3 });
+        expect(updated.quantity).toBe(3);
+        expect((await lines.findOne({ tenantId: 2, orderNo: 'A-1' }))?.quantity).toBe(5);
+
+        const history = await lines.history({ tenantId: 1, orderNo: 'A-1' });
+        expect(history.map((row) => row.quantity)).toEqual([2, 3]);
+
+        await lines.delete({ tenantId: 1, orderNo: 'A-1' });
+        expect(await lines.findOne({ tenantId: 1, orderNo: 'A-1' })).toBeNull();
+        expect(await lines.findOne({ tenantId: 2, orderNo: 'A-1' })).not.toBeNull();
+        await expect(lines.findOne({ tenantId: 2 })).rejects.toThrow('Missing primary key orderNo');
+    });
+
+    it('should use natural keys given on create and bulkCreate', async () => {
+        const usd = await currencies.create({ code: 'USD', name: 'US Dollar' });
+        const created = await currencies.bulkCreate([{ code: 'EUR', name: 'Euro' }, { code: 'ZAR', name: 'Rand' }]);
+
+        expect(usd.code).toBe('USD');
+        expect(created.map((c) => c.code).sort()).toEqual(['EUR', 'ZAR']);
+        expect((await currencies.update('EUR', { name: 'Euro (EU)' }))?.name).toBe('Euro (EU)');
+    });
+});
+
+describe('Repository ID strategies', () => {
+    const Event = defineModel({
+        tableName: 'events',
+        idStrategy: 'uuidv7',
+        columns: {
+            id: { type: DataTypes.UUID },
+            name: { type: DataTypes.STRING },
+        },
+    });
+    const Ticket = defineModel({
+        tableName: 'tickets',
+        idStrategy: 'ulid',
+        columns: {
+            id: { type: DataTypes.STRING },
+            title: { type: DataTypes.STRING },
+        },
+    });
+    let counter = 0;
+    const Invoice = defineModel({
+        tableName: 'invoices',
+        idStrategy: () => `INV-${++counter}`,
+        columns: {
+            id: { type: DataTypes.STRING },
+            total: { type: DataTypes.INTEGER },
+        },
+    });
+    const Note = defineModel({
+        tableName: 'notes',
+        columns: {
+            id: { type: DataTypes.INTEGER },
+            body: { type: DataTypes.STRING },
+        },
+    });
+    const Message = defineModel({
+        tableName: 'messages',
+        idStrategy: 'snowflake',
+        columns: {
+            id: { type: DataTypes.BIGINT },
+            text: { type: DataTypes.STRING },
+        },
+    });
+
+    const orm = createOrm();
+    const events = orm.getRepository(Event);
+    const tickets = orm.getRepository(Ticket);
+    const invoices = orm.getRepository(Invoice);
+    const notes = orm.getRepository(Note);
+    const messages = orm.getRepository(Message);
+
+    beforeAll(async () => {
+        for (const model of [Event, Ticket, Invoice, Note, Message]) {
+            const migration = await generateMigration(model, 'init', DBType.SQLite);
+            for (const sql of migration.up) await orm.client.query(sql);
+        }
+    });
+
+    it('should emit key column types matching the strategy', async () => {
+        expect((await generateMigration(Event, 'init', DBType.Postgres)).up[0]).toContain('id UUID PRIMARY KEY');
+        expect((await generateMigration(Ticket, 'init', DBType.MySQL)).up[0]).toContain('id CHAR(26) PRIMARY KEY');
+        expect((await generateMigration(Invoice, 'init', DBType.SQLite)).up[0]).toContain('id TEXT PRIMARY KEY');
+        expect((await generateMigration(Invoice, 'init', DBType.SQLite)).up[0]).not.toContain('AUTOINCREMENT');
+    });
+
+    it('should auto-increment BIGINT keys', async () => {
+        const Visit = defineModel({
+            tableName: 'visits',
+            columns: { id: { type: DataTypes.BIGINT }, path: { type: DataTypes.STRING } },
+        });
+        expect((await generateMigration(Visit, 'init', DBType.Postgres)).up[0]).toContain('id BIGSERIAL PRIMARY KEY');
+        expect((await generateMigration(Visit, 'init', DBType.MySQL)).up[0]).toContain('id BIGINT AUTO_INCREMENT PRIMARY KEY');
+        expect((await generateMigration(Visit, 'init', DBType.SQLite)).up[0]).toContain('id INTEGER PRIMARY KEY AUTOINCREMENT');
+        expect((await generateMigration(Note, 'init', DBType.Postgres)).up[0]).toContain('id SERIAL PRIMARY KEY');
+    });
+
+    it('should reject MySQL bulk creates that mix given and generated keys', async () => {
+        const mysql = createOrm();
+        mysql.client.config.type = DBType.MySQL;
+
+        await expect(mysql.getRepository(Note).bulkCreate([{ id: 10, body: 'given' }, { body: 'generated' }]))
+            .rejects.toMatchObject({ code: 'INSERT_ERROR' });
+    });
+
+    it('should generate ids before insert', async () => {
+        const event = await events.create({ name: 'launch' });
+        const ticket = await tickets.create({ title: 'bug' });
+        const invoice = await invoices.create({ total: 10 });
+
+        expect(event.id).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-7[0-9a-f]{3}-/);
+        expect(ticket.id).toMatch(/^[0-9A-HJKMNP-TV-Z]{26}$/);
+        expect(invoice.id).toBe('INV-1');
+        expect((await events.findOne(event.id))?.name).toBe('launch');
+    });
+
+    it('should return exactly the rows created by bulkCreate', async () => {
+        const created = await tickets.bulkCreate([{ title: 'a' }, { title: 'b' }, { title: 'c' }]);
+        expect(created.map((t) => t.title)).toEqual(['a', 'b', 'c']);
+        expect([...created.map((t) => t.id)].sort()).toEqual(created.map((t) => t.id));
+
+        await notes.create({ body: 'existing' });
+        const inserted = await notes.bulkCreate([{ body: 'x' }, { body: 'y' }]);
+        expect(inserted.map((n) => n.body)).toEqual(['x', 'y']);
+    });
+
+    it('should read snowflake ids back without losing precision', async () => {
+        const created = [await messages.create({ text: 'a' }), await messages.create({ text: 'b' }), await messages.create({ text: 'c' })];
+        const ids = created.map((m) => m.id);
+
+        expect(new Set(ids).size).toBe(3);
+        expect(ids.every((id) => typeof id === 'bigint' && id > BigInt(Number.MAX_SAFE_INTEGER))).toBe(true);
+        for (const message of created) {
+            expect((await messages.findOne(message.id))?.text).toBe(message.text);
+        }
+        expect((await messages.findBy({}, { orderBy: 'id ASC' })).map((m) => m.id)).toEqual(ids);
+    });
+});
+
+describe('Repository optimistic locking', () => {
+    const Document = defineModel({
+        tableName: 'documents',
+        columns: {
+            id: { type: DataTypes.INTEGER },
+            slug: { type: DataTypes.STRING, unique: true },
+            title: { type: DataTypes.STRING },
+            lockVersion: { name: 'lock_version', type: DataTypes.INTEGER, version: true },
+        },
+    });
+    const orm = createOrm();
+    const documents = orm.getRepository(Document);
+
+    beforeAll(async () => {
+        const migration = await generateMigration(Document, 'init', DBType.SQLite);
+        for (const sql of migration.up) await orm.client.query(sql);
+    });
+
+    it('should start at version 1 and increment on update', async () => {
+        const doc = await documents.create({ slug: 'a', title: 'Draft' });
+        expect(doc.lockVersion).toBe(1);
+
+        const updated = await documents.update(doc.id, { title: 'Final', lockVersion: 1 });
+        expect(updated.lockVersion).toBe(2);
+        expect(updated.title).toBe('Final');
+    });
+
+    it('should reject updates made with a stale version', async () => {
+        const doc = await documents.create({ slug: 'b', title: 'Draft' });
+        await documents.update(doc.id, { title: 'First', lockVersion: doc.lockVersion });
+
+        await expect(documents.update(doc.id, { title: 'Second', lockVersion: doc.lockVersion }))
+            .rejects.toMatchObject({ code: 'OPTIMISTIC_LOCK_ERROR' });
+        await expect(documents.bulkUpdate([{ where: { condition: 'slug = ?', params: ['b'] }, set: { title: 'Third', lockVersion: 1 } }]))
+            .rejects.toMatchObject({ code: 'OPTIMISTIC_LOCK_ERROR' });
+        expect((await documents.findOne(doc.id))?.title).toBe('First');
+    });
+
+    it('should check the version when upsert updates a row', async () => {
+        const inserted = await documents.upsert({ slug: 'c', title: 'New' }, ['slug']);
+        expect(inserted.lockVersion).toBe(1);
+
+        const updated = await documents.upsert({ slug: 'c', title: 'Edited', lockVersion: 1 }, ['slug']);
+        expect(updated.lockVersion).toBe(2);
+        await expect(documents.upsert({ slug: 'c', title: 'Stale', lockVersion: 1 }, ['slug']))
+            .rejects.toMatchObject({ code: 'OPTIMISTIC_LOCK_ERROR' });
+    });
+
+    it('should write hook changes and check the version in per-row updateWhere', async () => {
+        const Memo = defineModel({
+            tableName: 'memos',
+            columns: {
+                id: { type: DataTypes.INTEGER },
+                title: { type: DataTypes.STRING },
+                views: { type: DataTypes.INTEGER },
+                lockVersion: { name: 'lock_version', type: DataTypes.INTEGER, version: true },
+            },
+            hooks: { beforeUpdate: (memo) => { memo.title = memo.title?.trim(); } },
+        });
+        const migration = await generateMigration(Memo, 'init', DBType.SQLite);
+        for (const sql of migration.up) await orm.client.query(sql);
+        const memos = orm.getRepository(Memo);
+        const memo = await memos.create({ title: 'Draft', views: 0 });
+
+        expect(await memos.updateWhere({ id: memo.id }, { title: '  Final  ' }, { perRow: true })).toBe(1);
+        expect(await memos.increment('views', 2, { id: memo.id }, { perRow: true })).toBe(1);
+        expect(await memos.findOne(memo.id)).toMatchObject({ title: 'Final', views: 2, lockVersion: 3 });
+        await expect(memos.updateWhere({ id: memo.id }, { title: 'Stale', lockVersion: 1 }, { perRow: true }))
+            .rejects.toMatchObject({ code: 'OPTIMISTIC_LOCK_ERROR' });
+    });
+
+    it('should number history rows with a version column named version', async () => {
+        const Page = defineModel({
+            tableName: 'pages',
+            versioned: true,
+            columns: {
+                id: { type: DataTypes.INTEGER },
+                title: { type: DataTypes.STRING },
+                version: { type: DataTypes.INTEGER, version: true },
+            },
+        });
+        const migration = await generateMigration(Page, 'init', DBType.SQLite);
+        expect(migration.up[1]?.match(/\bversion\b/g)).toHaveLength(1);
+        for (const sql of migration.up) await orm.client.query(sql);
+
+        const pages = orm.getRepository(Page);
+        const page = await pages.create({ title: 'Draft' });
+        await pages.update(page.id, { title: 'Final', version: 1 });
+        const restored = await pages.rollback(page.id, 1);
+
+        expect(restored).toMatchObject({ title: 'Draft', version: 3 });
+        expect((await pages.history(page.id)).map((row) => [row.title, row.version])).toEqual([['Draft', 1], ['Final', 2], ['Draft', 3]]);
+    });
+});
+
+describe('Repository claim', () => {
+    const Job = defineModel({
+        tableName: 'jobs',
+        columns: {
+            id: { type: DataTypes.INTEGER },
+            status: { type: DataTypes.STRING },
+            priority: { type: DataTypes.INTEGER },
+        },
+    });
+    const orm = createOrm();
+    const jobs = orm.getRepository(Job);
+
+    beforeAll(async () => {
+        const migration = await generateMigration(Job, 'init', DBType.SQLite);
+        for (const sql of migration.up) await orm.client.query(sql);
+        await jobs.bulkCreate([1, 3, 2, 5].map((priority) => ({ status: 'pending', priority })));
+    });
+
+    it('should claim the next jobs and mark them', async () => {
+        const first = await jobs.claim(2, { where: { status: 'pending' }, orderBy: 'priority DESC', set: { status: 'running' } });
+        const second = await jobs.claim(5, { where: { status: 'pending' }, orderBy: 'priority DESC', set: { status: 'running' } });
+
+        expect(first.map((job) => [job.priority, job.status])).toEqual([[5, 'running'], [3, 'running']]);
+        expect(second.map((job) => job.priority)).toEqual([2, 1]);
+        expect(await jobs.claim(1, { where: { status: 'pending' }, set: { status: 'running' } })).toEqual([]);
+    });
+});
+
+describe('Repository finders', () => {
+    const Tag = defineModel({
+        tableName: 'tags',
+        softDelete: true,
+        columns: {
+            id: { type: DataTypes.INTEGER },
+            slug: { type: DataTypes.STRING, unique: true },
+            label: { type: DataTypes.STRING },
+            uses: { type: DataTypes.INTEGER },
+            deletedAt: { type: DataTypes.DATETIME, softDelete: true },
+        },
+    });
+    const orm = createOrm();
+    const tags = orm.getRepository(Tag);
+
+    beforeAll(async () => {
+        const migration = await generateMigration(Tag, 'init', DBType.SQLite);
+        for (const sql of migration.up) await orm.client.query(sql);
+        await tags.bulkCreate([
+            { slug: 'orm', label: 'ORM', uses: 5 },
+            { slug: 'sql', label: 'SQL', uses: 2 },
+            { slug: 'old', label: 'Old', uses: 9 },
+        ]);
+        const old = await tags.findOneBy({ slug: 'old' });
+        await tags.delete(old!.id);
+    });
+
+    it('should find, count and check existence by criteria, excluding soft-deleted records', async () => {
+        expect((await tags.findBy({ uses: { gte: 1 } }, { orderBy: 'uses DESC' })).map((t) => t.slug)).toEqual(['orm', 'sql']);
+        expect((await tags.findOneBy({ label: 'SQL' }))?.slug).toBe('sql');
+        expect(await tags.findOneBy({ slug: 'old' })).toBeNull();
+        expect(await tags.count()).toBe(2);
+        expect(await tags.count({ uses: { gt: 3 } })).toBe(1);
+        expect(await tags.exists({ slug: 'orm' })).toBe(true);
+        expect(await tags.exists({ slug: 'old' })).toBe(false);
+    });
+
+    it('should throw NOT_FOUND from findOneOrFail', async () => {
+        await expect(tags.findOneOrFail(999)).rejects.toMatchObject({ code: 'NOT_FOUND' });
+    });
+
+    it('should return or create records with firstOrCreate', async () => {
+        const existing = await tags.firstOrCreate({ slug: 'orm' }, { label: 'Other' });
+        const created = await tags.firstOrCreate({ slug: 'bun' }, { label: 'Bun', uses: 0 });
+
+        expect(existing.label).toBe('ORM');
+        expect(created.label).toBe('Bun');
+        expect(await tags.count()).toBe(3);
+    });
+
+    it('should update or create records with updateOrCreate', async () => {
+        const updated = await tags.updateOrCreate({ slug: 'sql' }, { uses: 3 });
+        const created = await tags.updateOrCreate({ slug: 'ts' }, { label: 'TypeScript', uses: 1 });
+
+        expect(updated.uses).toBe(3);
+        expect(created.slug).toBe('ts');
+        expect(await tags.count()).toBe(4);
+    });
+});
+
+describe('Repository set-based writes', () => {
+    const Product = defineModel({
+        tableName: 'products',
+        columns: {
+            id: { type: DataTypes.INTEGER },
+            sku: { type: DataTypes.STRING },
+            category: { type: DataTypes.STRING },
+            stock: { type: DataTypes.INTEGER },
+        },
+    });
+    const updatedSkus: string[] = [];
+    registerHooks(Product, { afterUpdate: (entity) => { updatedSkus.push(entity.sku!); } });
+
+    const orm = createOrm();
+    const products = orm.getRepository(Product);
+
+    beforeAll(async () => {
+        const migration = await generateMigration(Product, 'init', DBType.SQLite);
+        for (const sql of migration.up) await orm.client.query(sql);
+        await products.bulkCreate([
+            { sku: 'A', category: 'tools', stock: 10 },
+            { sku: 'B', category: 'tools', stock: 0 },
+            { sku: 'C', category: 'toys', stock: 4 },
+        ]);
+    });
+
+    it('should update matching rows in one statement and skip hooks by default', async () => {
+        const count = await products.updateWhere({ category: 'tools' }, { category: 'hardware' });
+        expect(count).toBe(2);
+        expect(updatedSkus).toEqual([]);
+        expect(await products.count({ category: 'hardware' })).toBe(2);
+    });
+
+    it('should run hooks per row when requested', async () => {
+        expect(await products.updateWhere({ category: 'hardware' }, { category: 'tools' }, { perRow: true })).toBe(2);
+        expect(updatedSkus.sort()).toEqual(['A', 'B']);
+    });
+
+    it('should increment and decrement atomically', async () => {
+        expect(await products.increment('stock', 5, { sku: 'A' })).toBe(1);
+        expect(await products.decrement('stock', 1, { stock: { gt: 0 } })).toBe(2);
+        const stock = (await products.findBy({}, { orderBy: 'sku ASC' })).map((p) => p.stock);
+        expect(stock).toEqual([14, 0, 3]);
+    });
+
+    it('should reject unknown columns', async () => {
+        // The numeric property checks are compile-time only (tests/types.ts); this covers callers without them.
+        await expect(products.decrement('stok' as Parameters<typeof products.decrement>[0])).rejects.toThrow('Unknown column stok on products');
+    });
+
+    it('should delete matching rows and return the count', async () => {
+        expect(await products.deleteWhere({ stock: 0 })).toBe(1);
+        expect(await products.deleteWhere({ category: 'nothing' })).toBe(0);
+        expect(await products.count()).toBe(2);
+    });
+});
+
+describe('Repository soft delete modes', () => {
+    const Author = defineModel({
+        tableName: 'authors',
+        columns: {
+            id: { type: DataTypes.INTEGER },
+            name: { type: DataTypes.STRING },
+            deletedAt: { name: 'deleted_at', type: DataTypes.DATETIME, softDelete: true },
+        },
+        relations: [
+            { type: RelationType.OneToMany, target: () => Article, property: 'articles', foreignKey: 'author_id' },
+        ],
+    });
+    const Article = defineModel({
+        tableName: 'articles',
+        columns: {
+            id: { type: DataTypes.INTEGER },
+            title: { type: DataTypes.STRING },
+            authorId: { name: 'author_id', type: DataTypes.INTEGER },
+            deletedAt: { name: 'deleted_at', type: DataTypes.DATETIME, softDelete: true },
+        },
+    });
+    const orm = createOrm();
+    const authors = orm.getRepository(Author);
+    const articles = orm.getRepository(Article);
+
+    beforeAll(async () => {
+        for (const model of [Author, Article]) {
+            const migration = await generateMigration(model, 'init', DBType.SQLite);
+            for (const sql of migration.up) await orm.client.query(sql);
+        }
+    });
+
+    it('should soft delete along cascaded relations and query trashed rows', async () => {
+        const author = await authors.create(cascadeInput<InstanceType<typeof Author>>({ name: 'Ada', articles: [{ title: 'One' }, { title: 'Two' }] }), { cascade: ['articles'] });
+        await authors.delete(author.id, { cascade: ['articles'] });
+
+        expect(await authors.findOne(author.id)).toBeNull();
+        expect(await articles.count({ authorId: author.id })).toBe(0);
+        expect(await articles.find().withTrashed().where({ authorId: author.id }).count()).toBe(2);
+        expect((await authors.find().onlyTrashed().execute()).map((a) => a.name)).toEqual(['Ada']);
+        expect((await authors.findOne(author.id, { withTrashed: true }))?.deletedAt).toBeInstanceOf(Date);
+    });
+
+    it('should recover several records at once', async () => {
+        const trashed = await articles.find().onlyTrashed().execute();
+        expect(await articles.bulkRecover(trashed.map((a) => a.id))).toBe(2);
+        expect(await articles.count()).toBe(2);
+    });
+
+    it('should permanently delete records', async () => {
+        const [first, second] = await articles.find().orderBy('id ASC').execute();
+        await articles.forceDelete(first!.id);
+        await articles.delete(second!.id);
+
+        expect(await articles.purgeTrashed({ olderThan: new Date(Date.now() - 60_000) })).toBe(0);
+        expect(await articles.purgeTrashed()).toBe(1);
+        expect(await articles.find().withTrashed().count()).toBe(0);
+        await expect(articles.purgeTrashed()).resolves.toBe(0);
+    });
+
+    it('should delete records that are already soft deleted', async () => {
+        const author = await authors.create({ name: 'Bea' });
+        await authors.delete(author.id);
+        const { deletedAt } = (await authors.findOne(author.id, { withTrashed: true }))!;
+
+        await authors.delete(author.id, { cascade: ['articles'] });
+        expect((await authors.findOne(author.id, { withTrashed: true }))?.deletedAt).toEqual(deletedAt);
+        await authors.forceDelete(author.id);
+        expect(await authors.findOne(author.id, { withTrashed: true })).toBeNull();
+    });
+});
+
+describe('Repository projections', () => {
+    const Customer = defineModel({
+        tableName: 'customers',
+        columns: {
+            id: { type: DataTypes.INTEGER },
+            email: { type: DataTypes.STRING },
+            isActive: { name: 'is_active', type: DataTypes.BOOLEAN },
+            photo: { type: DataTypes.BLOB },
+        },
+    });
+    const orm = createOrm();
+    const repo = orm.getRepository(Customer);
+
+    beforeAll(async () => {
+        const migration = await generateMigration(Customer, 'init', DBType.SQLite);
+        for (const sql of migration.up) await orm.client.query(sql);
+    });
+
+    it('should hydrate only the selected properties', async () => {
+        await repo.create({ email: 'a@example.com', isActive: true, photo: Buffer.alloc(1024) });
+
+        const [row] = await repo.find().select(['email', 'isActive']).execute();
+        expect(row).toBeInstanceOf(Customer);
+        expect({ ...row }).toEqual({ email: 'a@example.com', isActive: true });
+    });
+});
+
+describe('Repository typed models', () => {
+    const Member = defineModel({
+        tableName: 'typed_members',
+        columns: {
+            id: { type: DataTypes.INTEGER },
+            email: { type: DataTypes.STRING, required: true },
+            joinedAt: { name: 'joined_at', type: DataTypes.DATETIME },
+        },
+        relations: [
+            { type: RelationType.OneToMany, target: () => Entry, property: 'entries', inverseKey: 'member_id' },
+        ],
+        hooks: { beforeCreate: (member) => { created.push(member.email.toLowerCase()); } },
+    });
+    const created: string[] = [];
+    const Entry = defineModel({
+        tableName: 'typed_entries',
+        columns: {
+            id: { type: DataTypes.INTEGER },
+            memberId: { name: 'member_id', type: DataTypes.INTEGER },
+        },
+        relations: [
+            { type: RelationType.ManyToOne, target: () => Member, property: 'member', foreignKey: 'member_id' },
+        ],
+    });
+    const orm = createOrm();
+    const members = orm.getRepository(Member);
+    const entries = orm.getRepository(Entry);
+
+    beforeAll(async () => {
+        for (const model of [Member, Entry]) {
+            const migration = await generateMigration(model, 'init', DBType.SQLite);
+            for (const sql of migration.up) await orm.client.query(sql);
+        }
+    });
+
+    it('should infer entity types and run hooks from the model configuration', async () => {
+        const { id } = await members.create(new Member({ email: 'Ann@example.com', joinedAt: new Date(0) }));
+        await entries.create({ memberId: id });
+        // @ts-expect-error email is a string
+        expect(() => new Member({ email: 42 })).not.toThrow();
+
+        const member = await members.findOneOrFail(id, { relations: ['entries'] });
+        const email: string = member.email;
+        const joinedAt: Date | null | undefined = member.joinedAt;
+        const entryIds: number[] = (member.entries ?? []).map((entry) => entry.id);
+
+        expect(created).toEqual(['ann@example.com']);
+        expect(email).toBe('Ann@example.com');
+        expect(joinedAt).toEqual(new Date(0));
+        expect(entryIds).toHaveLength(1);
+    });
+});
+
+describe('Repository column types', () => {
+    registerColumnType('cents', {
+        sqlType: { [DBType.Postgres]: 'BIGINT', [DBType.MySQL]: 'BIGINT', [DBType.SQLite]: 'INTEGER' },
+        toDb: (value: number) => Math.round(value * 100),
+        fromDb: (value) => Number(value) / 100,
+    });
+    const Listing = defineModel({
+        tableName: 'listings',
+        columns: {
+            id: { type: DataTypes.INTEGER },
+            status: { type: DataTypes.ENUM, values: ['draft', 'live'] },
+            tags: { type: DataTypes.ARRAY },
+            price: { type: 'cents' },
+        },
+    });
+    const orm = createOrm();
+    const repo = orm.getRepository(Listing);
+
+    beforeAll(async () => {
+        const migration = await generateMigration(Listing, 'init', DBType.SQLite);
+        for (const sql of migration.up) await orm.client.query(sql);
+    });
+
+    it('should generate enum, array and custom column types per dialect', async () => {
+        const postgres = await generateMigration(Listing, 'init', DBType.Postgres);
+        expect(postgres.up[0]).toBe("CREATE TYPE listings_status AS ENUM ('draft', 'live')");
+        expect(postgres.up[1]).toContain('status listings_status, tags TEXT[], price BIGINT');
+        expect(postgres.down).toEqual(['DROP TABLE IF EXISTS listings', 'DROP TYPE IF EXISTS listings_status']);
+
+        const mysql = await generateMigration(Listing, 'init', DBType.MySQL);
+        expect(mysql.up[0]).toContain("status ENUM('draft', 'live'), tags JSON, price BIGINT");
+
+        const sqlite = await generateMigration(Listing, 'init', DBType.SQLite);
+        expect(sqlite.up[0]).toContain("status TEXT CHECK (status IN ('draft', 'live')), tags TEXT, price INTEGER");
+    });
+
+    it('should round-trip values and validate enums', async () => {
+        const created = await repo.create({ status: 'live', tags: ['a', 'b'], price: 12.5 });
+        const [raw] = await orm.client.query<{ tags: string; price: number }>('SELECT tags, price FROM listings WHERE id = ?', [created.id]);
+
+        expect(raw).toEqual({ tags: '["a","b"]', price: 1250 });
+        expect(await repo.findOne(created.id)).toMatchObject({ status: 'live', tags: ['a', 'b'], price: 12.5 });
+        // @ts-expect-error not an allowed value
+        await expect(repo.create({ status: 'archived' })).rejects.toThrow('Field status must be one of draft, live');
+    });
+
+    it('should not redefine built-in types', () => {
+        expect(() => registerColumnType('json', { sqlType: { [DBType.Postgres]: 'JSON', [DBType.MySQL]: 'JSON', [DBType.SQLite]: 'TEXT' } }))
+            .toThrow('Column type json is built in and cannot be redefined');
+    });
+});
+
+describe('Repository transformers and computed fields', () => {
+    const Contact = defineModel({
+        tableName: 'contacts',
+        columns: {
+            id: { type: DataTypes.INTEGER },
+            firstName: { name: 'first_name', type: DataTypes.STRING },
+            lastName: { name: 'last_name', type: DataTypes.STRING },
+            labels: { type: DataTypes.STRING, transformer: { to: (value: string[]) => value.join(','), from: (value: string) => value.split(',') } },
+            secret: { type: DataTypes.STRING, encrypted: true },
+        },
+        computed: {
+            fullName: { get: (contact) => `${contact.firstName} ${contact.lastName}` },
+            nameLength: { sql: 'length(first_name) + length(last_name)', type: DataTypes.INTEGER },
+        },
+    });
+    const orm = createOrm();
+    const repo = orm.getRepository(Contact);
+
+    beforeAll(async () => {
+        const migration = await generateMigration(Contact, 'init', DBType.SQLite);
+        for (const sql of migration.up) await orm.client.query(sql);
+    });
+
+    it('should transform values on write, read and in criteria', async () => {
+        const created = await repo.create({ firstName: 'Ann', lastName: 'Lee', labels: ['vip', 'press'], secret: 'hunter2' });
+        const [raw] = await orm.client.query<{ labels: string; secret: string }>('SELECT labels, secret FROM contacts WHERE id = ?', [created.id]);
+        const labels: string[] | null | undefined = created.labels;
+
+        expect(labels).toEqual(['vip', 'press']);
+        expect(raw?.labels).toBe('vip,press');
+        expect(raw?.secret).not.toBe('hunter2');
+        expect(await repo.findOne(created.id)).toMatchObject({ labels: ['vip', 'press'], secret: 'hunter2' });
+        expect(await repo.findBy({ labels: ['vip', 'press'] })).toHaveLength(1);
+    });
+
+    it('should derive computed fields on load without persisting them', async () => {
+        const created = await repo.create({ firstName: 'Bo', lastName: 'Park', fullName: 'Ignored' });
+        const found = await repo.findOne(created.id);
+        const fullName: string | undefined = found?.fullName;
+        const nameLength: number | undefined = found?.nameLength;
+        const [projected] = await repo.find().select(['id', 'nameLength']).where({ id: created.id }).execute();
+
+        expect(fullName).toBe('Bo Park');
+        expect(nameLength).toBe(6);
+        expect(projected).toMatchObject({ id: created.id, nameLength: 6 });
+
+        const query = vi.spyOn(orm.client, 'query');
+        await repo.update(created.id, { lastName: 'Lin', nameLength: 0 });
+        const statements = query.mock.calls.map(([sql]) => sql);
+        query.mockRestore();
+        expect(statements.filter((sql) => sql.startsWith('UPDATE'))).toEqual(['UPDATE contacts SET last_name = ? WHERE id = ?']);
+        expect(await repo.findOne(created.id)).toMatchObject({ fullName: 'Bo Lin', nameLength: 5 });
+    });
+});
+
+describe('Repository transformed primary keys', () => {
+    const Coupon = defineModel({
+        tableName: 'coupons',
+        columns: {
+            code: { type: DataTypes.STRING, primaryKey: true, transformer: { to: (value: string) => `cp-${value}`, from: (value: string) => value.slice(3) } },
+            deletedAt: { name: 'deleted_at', type: DataTypes.DATETIME, softDelete: true },
+        },
+    });
+    const orm = createOrm();
+    const coupons = orm.getRepository(Coupon);
+
+    beforeAll(async () => {
+        const migration = await generateMigration(Coupon, 'init', DBType.SQLite);
+        for (const sql of migration.up) await orm.client.query(sql);
+    });
+
+    it('should transform key values once when matching several keys', async () => {
+        await coupons.bulkCreate([{ code: 'spring' }, { code: 'summer' }, { code: 'autumn' }]);
+        await coupons.delete('spring');
+        await coupons.delete('summer');
+
+        expect(await coupons.bulkRecover(['spring', 'summer'])).toBe(2);
+        expect((await coupons.findBy({}, { orderBy: 'code ASC' })).map((c) => c.code)).toEqual(['autumn', 'spring', 'summer']);
+    });
+});
+
+describe('Repository serialization', () => {
+    const Account = defineModel({
+        tableName: 'accounts',
+        columns: {
+            id: { type: DataTypes.INTEGER },
+            name: { type: DataTypes.STRING },
+            passwordHash: { name: 'password_hash', type: DataTypes.STRING, hidden: true },
+            email: { type: DataTypes.STRING, groups: ['admin'] },
+            apiKey: { name: 'api_key', type: DataTypes.STRING, encrypted: true },
+            createdAt: { name: 'created_at', type: DataTypes.DATETIME, serializeAs: 'joined' },
+        },
+        relations: [
+            { type: RelationType.OneToMany, target: () => Session, property: 'sessions', inverseKey: 'account_id', groups: ['admin'] },
+        ],
+        timestamps: { createdAt: 'createdAt' },
+    });
+    const Session = defineModel({
+        tableName: 'sessions',
+        columns: {
+            id: { type: DataTypes.INTEGER },
+            accountId: { name: 'account_id', type: DataTypes.INTEGER },
+            token: { type: DataTypes.STRING, hidden: true },
+        },
+        relations: [
+            { type: RelationType.ManyToOne, target: () => Account, property: 'account', foreignKey: 'account_id' },
+        ],
+    });
+    const orm = createOrm();
+    const accounts = orm.getRepository(Account);
+    const sessions = orm.getRepository(Session);
+
+    beforeAll(async () => {
+        for (const model of [Account, Session]) {
+            const migration = await generateMigration(model, 'init', DBType.SQLite);
+            for (const sql of migration.up) await orm.client.query(sql);
+        }
+    });
+
+    it('should omit hidden, encrypted and grouped fields from toJSON', async () => {
+        const account = await accounts.create({ name: 'Ann', passwordHash: 'x', email: 'ann@example.com', apiKey: 'secret' });
+        const json = JSON.parse(JSON.stringify(account));
+
+        expect(account.apiKey).toBe('secret');
+        expect(json).toEqual({ id: account.id, name: 'Ann', joined: account.createdAt!.toISOString() });
+    });
+
+    it('should serialize groups, relations and paginated results', async () => {
+        const account = await accounts.create({ name: 'Ben', passwordHash: 'x', email: 'ben@example.com', apiKey: 'secret' });
+        const session = await sessions.create({ accountId: account.id, token: 't' });
+        const [loaded] = await accounts.find().where({ id: account.id }).with('sessions').execute();
+        loaded!.sessions![0]!.account = loaded;
+
+        expect(serialize(loaded, { groups: ['admin'] })).toEqual({
+            id: account.id,
+            name: 'Ben',
+            email: 'ben@example.com',
+            joined: account.createdAt,
+            sessions: [{ id: session.id, accountId: account.id }],
+        });
+        const page = serialize(await accounts.paginate(1, 10));
+        expect(page.total).toBe(2);
+        expect(page.data.map((row: object) => Object.keys(row))).toEqual([['id', 'name', 'joined'], ['id', 'name', 'joined']]);
+    });
+});
+
+describe('Repository validation', () => {
+    const Signup = defineModel({
+        tableName: 'signups',
+        columns: {
+            id: { type: DataTypes.INTEGER },
+            email: { type: DataTypes.STRING, required: true, email: true, validate: unique() },
+            handle: { type: DataTypes.STRING, minLength: 3, maxLength: 8, pattern: /^[a-z]+$/ },
+            website: { type: DataTypes.STRING, url: true },
+            age: { type: DataTypes.INTEGER, min: 13, max: 130 },
+            plan: { type: DataTypes.ENUM, values: ['free', 'pro'] },
+            company: { type: DataTypes.STRING, required: true, validateIf: (signup) => signup.plan === 'pro' },
+        },
+    });
+    const Listing = defineModel({
+        tableName: 'listings',
+        columns: {
+            id: { type: DataTypes.INTEGER, required: true },
+            slug: { type: DataTypes.STRING, validate: unique() },
+            createdAt: { name: 'created_at', type: DataTypes.DATETIME, required: true },
+            updatedAt: { name: 'updated_at', type: DataTypes.DATETIME, required: true },
+        },
+        timestamps: { createdAt: 'createdAt', updatedAt: 'updatedAt' },
+    });
+    const Receipt = defineModel({
+        tableName: 'receipts',
+        idStrategy: 'uuidv7',
+        columns: {
+            id: { type: DataTypes.UUID, required: true },
+            total: { type: DataTypes.INTEGER },
+        },
+    });
+    const orm = createOrm();
+    const repo = orm.getRepository(Signup);
+    const listings = orm.getRepository(Listing);
+    const receipts = orm.getRepository(Receipt);
+
+    beforeAll(async () => {
+        for (const model of [Signup, Listing, Receipt]) {
+            const migration = await generateMigration(model, 'init', DBType.SQLite);
+            for (const sql of migration.up) await orm.client.query(sql);
+        }
+    });
+
+    it('should report every invalid field at once', async () => {
+        const error = await repo.create({ handle: 'AB', website: 'ftp://example.com', age: 7, plan: 'pro' }).catch((e) => e);
+
+        expect(error).toBeInstanceOf(ValidationError);
+        expect(error.code).toBe('VALIDATION_ERROR');
+        expect(error.errors).toEqual({
+            email: ['Field email is required'],
+            handle: ['Field handle must be at least 3 characters long', 'Field handle does not match pattern'],
+            website: ['Field website must be a valid URL'],
+            age: ['Field age must be at least 13'],
+            company: ['Field company is required'],
+        });
+        expect(await repo.count()).toBe(0);
+    });
+
+    it('should check uniqueness against the database, excluding the updated record', async () => {
+        const ann = await repo.create({ email: 'ann@example.com', plan: 'free' });
+
+        expect(await repo.validate({ email: 'ann@example.com' })).toEqual({
+            valid: false,
+            errors: { email: ['Field email must be unique'] },
+        });
+        expect((await repo.validate({ email: 'ann@example.com' }, { operation: 'update', id: ann.id })).valid).toBe(true);
+        await expect(repo.update(ann.id, { email: 'ann@example.com', age: 30 })).resolves.toMatchObject({ age: 30 });
+        await expect(repo.create({ email: 'ann@example.com' })).rejects.toThrow('Field email must be unique');
+    });
+
+    it('should only validate the given properties on update', async () => {
+        const ben = await repo.create({ email: 'ben@example.com' });
+
+        await expect(repo.update(ben.id, { age: 40 })).resolves.toMatchObject({ age: 40 });
+        // @ts-expect-error email is required
+        await expect(repo.update(ben.id, { email: null })).rejects.toThrow('Field email is required');
+        expect(await repo.validate({ email: 'nope' }, { operation: 'update' })).toEqual({
+            valid: false,
+            errors: { email: ['Field email must be a valid email address'] },
+        });
+    });
+
+    it('should validate generated keys and timestamps after they are filled in', async () => {
+        await expect(listings.create({ slug: 'first' })).resolves.toMatchObject({ slug: 'first' });
+        await expect(listings.bulkCreate([{ slug: 'second' }, { slug: 'third' }])).resolves.toHaveLength(2);
+        await expect(receipts.create({ total: 10 })).resolves.toMatchObject({ total: 10 });
+        expect((await listings.validate({ slug: 'fourth' })).valid).toBe(true);
+    });
+
+    it('should exclude the updated records from row-dependent rules in updateWhere', async () => {
+        const first = (await listings.findOneBy({ slug: 'first' }))!;
+
+        expect(await listings.updateWhere({ id: first.id }, { slug: 'first' })).toBe(1);
+        expect(await listings.updateWhere({ id: first.id }, { slug: 'first' }, { perRow: true })).toBe(1);
+        await expect(listings.updateWhere({ id: first.id }, { slug: 'second' })).rejects.toThrow('Field slug must be unique');
+        await expect(listings.updateWhere({ id: first.id }, { slug: 'second' }, { perRow: true })).rejects.toThrow('Field slug must be unique');
+    });
+
+    it('should reject setting a unique field on several records in updateWhere', async () => {
+        await expect(listings.updateWhere({ slug: { in: ['second', 'third'] } }, { slug: 'fifth' }))
+            .rejects.toThrow('Field slug must be unique');
+        expect(await listings.updateWhere({ slug: { in: ['second', 'third'] } }, { slug: null })).toBe(2);
+        expect(await listings.updateWhere({ slug: 'first' }, { slug: 'fifth' })).toBe(1);
+    });
+});
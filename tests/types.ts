@@ -0,0 +1,26 @@
+/**
+ * Compile-time checks of the public types. `bun test` does not type-check, so these run with `tsc --noEmit`.
+ */
+import type { Stabilize } from '../index';
+import { defineModel } from '../model';
+import { DataTypes } from '../types';
+
+const Product = defineModel({
+    tableName: 'products',
+    columns: {
+        id: { type: DataTypes.INTEGER },
+        sku: { type: DataTypes.STRING },
+        stock: { type: DataTypes.INTEGER },
+    },
+});
+declare const orm: Stabilize;
+const products = orm.getRepository(Product);
+
+export async function incrementOnlyAcceptsNumericProperties() {
+    await products.increment('stock');
+    await products.decrement('id', 2);
+    // @ts-expect-error sku is not numeric
+    await products.increment('sku');
+    // @ts-expect-error misspelled property
+    await products.decrement('stok');
+}
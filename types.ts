@@ -42,6 +42,8 @@ export enum DataTypes {
   JSON,      // Maps to JSON, JSONB, or TEXT
   UUID,      // Maps to UUID or VARCHAR(36)
   BLOB,      // Maps to BYTEA or BLOB
+  ENUM,      // Maps to a Postgres enum type, MySQL ENUM, or TEXT with a CHECK constraint
+  ARRAY,     // Maps to a Postgres array, or JSON-encoded TEXT/JSON elsewhere
   
 }
 
@@ -88,6 +90,12 @@ export interface CacheStats {
   keys: number;
 }
 
+/**
+ * Identifies a record by its primary key: the key value for single-column keys,
+ * or an object of key properties (e.g. `{ tenantId: 1, orderNo: "A-7" }`) for composite keys.
+ */
+export type PrimaryKeyValue = number | string | bigint | Record<string, any>;
+
 export interface Migration {
   name: string;
   up: string[];
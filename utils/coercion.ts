@@ -0,0 +1,142 @@
+import { DataTypes, DBType } from "../types";
+import { getCustomColumnType } from "./column-types";
+
+/**
+ * Normalizes a column type to its lowercase `DataTypes` name, as `mapDataTypeToSql` does.
+ * @param type - The `DataTypes` value or its name.
+ * @returns {string} The lowercase type name (e.g. "datetime").
+ */
+function typeName(type: DataTypes | string): string {
+    return typeof type === "string" ? type.toLowerCase() : (DataTypes[type] ?? "").toLowerCase();
+}
+
+/**
+ * Parses a date/time value returned by the driver. SQLite stores `CURRENT_TIMESTAMP` as
+ * "YYYY-MM-DD HH:MM:SS" in UTC without a zone designator, so such strings are read as UTC.
+ * @param value - A Date, epoch milliseconds, or a date/time string.
+ * @returns {Date} The parsed date.
+ */
+function parseDateTime(value: unknown): Date {
+    if (value instanceof Date) return value;
+    if (typeof value === "number" || typeof value === "bigint") return new Date(Number(value));
+    const text = String(value);
+    if (/^\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/.test(text)) {
+        return new Date(`${text.replace(" ", "T")}Z`);
+    }
+    return new Date(text);
+}
+
+/**
+ * Formats a Date as "YYYY-MM-DD" in UTC.
+ * @param value - The date to format.
+ * @returns {string} The calendar date.
+ */
+function formatDate(value: Date): string {
+    return value.toISOString().slice(0, 10);
+}
+
+/**
+ * Converts an entity value to the representation bound as a query parameter for a column.
+ * The inverse of `fromDatabaseValue`, so values survive a write/read round trip on every dialect.
+ * @param value - The entity value.
+ * @param type - The column's `DataTypes` value or name.
+ * @param dbType - The target database dialect.
+ * @returns {any} The value to bind.
+ */
+export function toDatabaseValue(value: any, type: DataTypes | string, dbType: DBType): any {
+    if (value === null || value === undefined) return value;
+
+    const custom = getCustomColumnType(typeName(type));
+    if (custom) return custom.toDb ? custom.toDb(value, dbType) : value;
+
+    switch (typeName(type)) {
+        case "boolean":
+            if (dbType === DBType.Postgres) return Boolean(value);
+            return value ? 1 : 0;
+        case "date":
+            // Calendar dates are bound as strings so the session time zone cannot shift the day.
+            return value instanceof Date ? formatDate(value) : value;
+        case "datetime":
+            if (value instanceof Date && dbType === DBType.SQLite) return value.toISOString();
+            return value;
+        case "json":
+            return JSON.stringify(value);
+        case "array":
+            // Postgres binds arrays natively; other dialects store them as JSON.
+            return dbType === DBType.Postgres ? value : JSON.stringify(value);
+        case "bigint":
+            if (typeof value === "bigint" && dbType !== DBType.SQLite) return value.toString();
+            return value;
+        case "decimal":
+            return typeof value === "bigint" ? value.toString() : value;
+        default:
+            return value;
+    }
+}
+
+/**
+ * Converts a driver-native value read from a column into its JavaScript type:
+ * `Date` for DATE/DATETIME, `boolean` for BOOLEAN, parsed objects for JSON, arrays for ARRAY, `bigint` for BIGINT,
+ * `Buffer` for BLOB, decimal strings for DECIMAL and numbers for INTEGER/FLOAT/DOUBLE.
+ * Custom column types are converted with their `fromDb` function.
+ * @param value - The value returned by the driver.
+ * @param type - The column's `DataTypes` value or name.
+ * @param dbType - The database dialect the value was read from.
+ * @returns {any} The coerced value.
+ */
+export function fromDatabaseValue(value: any, type: DataTypes | string, dbType: DBType): any {
+    if (value === null || value === undefined) return value;
+
+    const custom = getCustomColumnType(typeName(type));
+    if (custom) return custom.fromDb ? custom.fromDb(value, dbType) : value;
+
+    switch (typeName(type)) {
+        case "boolean":
+            if (typeof value === "string") return ["1", "t", "true"].includes(value.toLowerCase());
+            if (value instanceof Uint8Array) return value[0] === 1;
+            return Boolean(Number(value));
+        case "date": {
+            if (value instanceof Date) {
+                // Drivers return DATE as local midnight; normalise to UTC midnight of the same calendar day.
+                return new Date(Date.UTC(value.getFullYear(), value.getMonth(), value.getDate()));
+            }
+            return new Date(`${String(value).slice(0, 10)}T00:00:00Z`);
+        }
+        case "datetime":
+            return parseDateTime(value);
+        case "json":
+            // Postgres and MySQL drivers already parse JSON columns; SQLite stores them as TEXT.
+            if (dbType === DBType.SQLite && typeof value === "string") {
+                try {
+                    return JSON.parse(value);
+                } catch {
+                    return value;
+                }
+            }
+            return value;
+        case "array":
+            // Postgres returns native arrays and MySQL parses JSON columns; SQLite stores them as TEXT.
+            if (typeof value === "string") {
+                try {
+                    return JSON.parse(value);
+                } catch {
+                    return value;
+                }
+            }
+            return value;
+        case "bigint":
+            return typeof value === "bigint" ? value : BigInt(typeof value === "number" ? Math.trunc(value) : value);
+        case "decimal":
+            return typeof value === "string" ? value : String(value);
+        case "integer":
+        case "float":
+        case "double":
+            return typeof value === "number" ? value : Number(value);
+        case "blob":
+            if (Buffer.isBuffer(value)) return value;
+            if (value instanceof Uint8Array) return Buffer.from(value.buffer, value.byteOffset, value.byteLength);
+            return Buffer.from(value);
+        default:
+            return value;
+    }
+}
@@ -0,0 +1,41 @@
+import { DataTypes, DBType, StabilizeError } from "../types";
+
+/**
+ * A custom column type: its SQL type for each dialect and how its values are converted on write and read.
+ * Register it with `registerColumnType` and use its name as a column's `type`.
+ * @template V The JavaScript type of the column's values.
+ */
+export interface CustomColumnType<V = any> {
+    /** The SQL column type for each dialect, used by `generateMigration`. */
+    sqlType: Record<DBType, string>;
+    /** Converts an entity value to the value bound as a query parameter. Defaults to the value itself. */
+    toDb?: (value: V, dbType: DBType) => unknown;
+    /** Converts a value returned by the driver to the entity value. Defaults to the value itself. */
+    fromDb?: (value: any, dbType: DBType) => V;
+}
+
+const customTypes = new Map<string, CustomColumnType>();
+
+/**
+ * Registers a custom column type. Names are case-insensitive; registering a name again replaces the type.
+ * `null` values are never passed to the converters.
+ * @param name - The type name, used as `ColumnConfig.type`.
+ * @param definition - The SQL types and value converters.
+ * @throws {StabilizeError} If the name is a built-in `DataTypes` member.
+ */
+export function registerColumnType<V>(name: string, definition: CustomColumnType<V>): void {
+    const key = name.toLowerCase();
+    if (Object.keys(DataTypes).some((builtIn) => builtIn.toLowerCase() === key)) {
+        throw new StabilizeError(`Column type ${name} is built in and cannot be redefined`, "COLUMN_TYPE_ERROR");
+    }
+    customTypes.set(key, definition);
+}
+
+/**
+ * Gets a custom column type registered with `registerColumnType`.
+ * @param name - The type name (case-insensitive).
+ * @returns {CustomColumnType | undefined} The type, or `undefined` if no type is registered under the name.
+ */
+export function getCustomColumnType(name: string): CustomColumnType | undefined {
+    return customTypes.get(name.toLowerCase());
+}
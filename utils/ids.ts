@@ -0,0 +1,86 @@
+import crypto from "crypto";
+import { v4 as uuidv4, v7 as uuidv7 } from "uuid";
+
+/**
+ * How primary key values are generated for a model:
+ * by the database (`autoincrement`), or by the ORM before insert (`uuidv4`, `uuidv7`, `ulid`,
+ * `snowflake` or a custom function).
+ */
+export type IdStrategy = "autoincrement" | "uuidv4" | "uuidv7" | "ulid" | "snowflake" | (() => string | number | bigint);
+
+const CROCKFORD_BASE32 = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+const SNOWFLAKE_EPOCH = 1704067200000n; // 2024-01-01T00:00:00Z
+const SNOWFLAKE_WORKER = BigInt(process.env.ORM_SNOWFLAKE_WORKER_ID || process.pid) & 0x3ffn; // 10 bits
+
+let lastUlidTime = -1;
+let lastUlidRandom: number[] = [];
+let lastSnowflakeTime = -1n;
+let snowflakeSequence = 0n;
+
+/**
+ * Generates a ULID: a 26 character, lexicographically sortable identifier made of a 48-bit
+ * millisecond timestamp and 80 random bits. IDs generated in the same millisecond are monotonic.
+ * @returns {string} The ULID.
+ */
+export function ulid(): string {
+    const now = Date.now();
+    if (now === lastUlidTime) {
+        // Increment the previous random part so IDs from the same millisecond keep their order.
+        let i = lastUlidRandom.length - 1;
+        while (i >= 0 && lastUlidRandom[i] === 31) lastUlidRandom[i--] = 0;
+        if (i < 0) throw new Error("ULID random component overflow");
+        lastUlidRandom[i]!++;
+    } else {
+        lastUlidTime = now;
+        lastUlidRandom = Array.from(crypto.randomBytes(16), (byte) => byte & 31);
+    }
+
+    let time = "";
+    let remaining = now;
+    for (let i = 0; i < 10; i++) {
+        time = CROCKFORD_BASE32[remaining % 32] + time;
+        remaining = Math.floor(remaining / 32);
+    }
+    return time + lastUlidRandom.map((digit) => CROCKFORD_BASE32[digit]).join("");
+}
+
+/**
+ * Generates a snowflake ID: a 64-bit integer made of a 41-bit millisecond timestamp (since 2024-01-01),
+ * a 10-bit worker ID (`ORM_SNOWFLAKE_WORKER_ID`, or the process ID) and a 12-bit sequence.
+ * @returns {bigint} The snowflake ID.
+ */
+export function snowflake(): bigint {
+    let now = BigInt(Date.now());
+    if (now === lastSnowflakeTime) {
+        snowflakeSequence = (snowflakeSequence + 1n) & 0xfffn;
+        if (snowflakeSequence === 0n) {
+            // Sequence exhausted for this millisecond: wait for the next one.
+            while (now <= lastSnowflakeTime) now = BigInt(Date.now());
+        }
+    } else {
+        snowflakeSequence = 0n;
+    }
+    lastSnowflakeTime = now;
+    return ((now - SNOWFLAKE_EPOCH) << 22n) | (SNOWFLAKE_WORKER << 12n) | snowflakeSequence;
+}
+
+/**
+ * Generates a primary key value for an ID strategy.
+ * @param strategy - The model's ID strategy.
+ * @returns {string | number | bigint | undefined} The new ID, or `undefined` for `autoincrement`.
+ */
+export function generateId(strategy: IdStrategy): string | number | bigint | undefined {
+    if (typeof strategy === "function") return strategy();
+    switch (strategy) {
+        case "uuidv4":
+            return uuidv4();
+        case "uuidv7":
+            return uuidv7();
+        case "ulid":
+            return ulid();
+        case "snowflake":
+            return snowflake();
+        default:
+            return undefined;
+    }
+}
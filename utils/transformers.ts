@@ -0,0 +1,37 @@
+import type { ColumnConfig, ColumnTransformer } from "../model";
+import { decrypt, encrypt } from "./encryption";
+
+/**
+ * The built-in transformer of `encrypted` columns: values are stored AES-256 encrypted (see `encrypt`).
+ * Values that cannot be decrypted are loaded as `null`.
+ * Encryption uses a random IV, so encrypted columns cannot be matched by value in query criteria.
+ */
+export const encryptionTransformer: ColumnTransformer<string | null, string> = {
+    to: (value) => encrypt(value as string),
+    from: (value) => {
+        try {
+            return decrypt(value);
+        } catch {
+            return null;
+        }
+    },
+};
+
+/**
+ * Resolves the transformer applied to a column's values: its `transformer`, the built-in
+ * `encryptionTransformer` for `encrypted` columns, or both (the value is transformed, then encrypted).
+ * @param column - The column configuration.
+ * @returns {ColumnTransformer | undefined} The transformer, or `undefined` if the column has none.
+ */
+export function getColumnTransformer(column: Pick<ColumnConfig, "transformer" | "encrypted">): ColumnTransformer | undefined {
+    const { transformer, encrypted } = column;
+    if (!encrypted) return transformer;
+    if (!transformer) return encryptionTransformer;
+    return {
+        to: (value) => encryptionTransformer.to(transformer.to(value)),
+        from: (value) => {
+            const decrypted = encryptionTransformer.from(value);
+            return decrypted === null ? null : transformer.from(decrypted);
+        },
+    };
+}
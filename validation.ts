@@ -0,0 +1,198 @@
+/**
+ * @file validation.ts
+ * @description Provides the validation engine that checks entities against their column rules before they are written.
+ * @author ElectronSz
+ */
+
+import type { DBClient } from "./client";
+import type { ColumnConfig } from "./model";
+import type { Repository } from "./repository";
+import { StabilizeError } from "./types";
+
+/**
+ * Whether an entity is validated for an insert (every column is checked) or an update
+ * (only the given properties are checked).
+ */
+export type ValidationOperation = "create" | "update";
+
+/**
+ * The context passed to `ValidationRule`s.
+ * @template T The entity type.
+ */
+export interface ValidationContext<T = any> {
+  /** The property being validated. */
+  field: string;
+  /** The entity or partial entity being written. */
+  entity: Partial<T>;
+  operation: ValidationOperation;
+  /** The repository of the model. Query it with `client` to stay inside the write's transaction. */
+  repository: Repository<T>;
+  client: DBClient;
+  /**
+   * Criteria matching the records being written, if they exist: the primary key on update, the conflict keys on upsert,
+   * or the `updateWhere` criteria.
+   */
+  current?: Record<string, any>;
+}
+
+/**
+ * A custom validation rule of a column. Returns `true` if the value is valid, or an error message
+ * (`false` for the default message). Rules may be async, e.g. to query the database.
+ * Rules are not called for `null` or `undefined` values; use `required` for those.
+ * @template T The entity type.
+ */
+export type ValidationRule<T = any> = (
+  value: any,
+  context: ValidationContext<T>,
+) => boolean | string | Promise<boolean | string>;
+
+/**
+ * The result of a `Repository.validate` dry run.
+ */
+export interface ValidationResult {
+  valid: boolean;
+  /** The error messages of each invalid property. */
+  errors: Record<string, string[]>;
+}
+
+/**
+ * Thrown when an entity fails validation, with the messages of every invalid property.
+ * Its `code` is `VALIDATION_ERROR`.
+ */
+export class ValidationError extends StabilizeError {
+  /**
+   * Creates an instance of ValidationError.
+   * @param errors The error messages of each invalid property.
+   */
+  constructor(public errors: Record<string, string[]>) {
+    super(Object.values(errors).flat().join("; "), "VALIDATION_ERROR");
+    this.name = "ValidationError";
+  }
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/** The rules created by `unique()`. */
+const uniqueRules = new WeakSet<ValidationRule>();
+
+/**
+ * Creates a rule that fails when another record already has the value. Soft-deleted records are included,
+ * as they still occupy the database's unique constraint; the records being updated are excluded.
+ * @param message Optional: The error message. Defaults to "Field <name> must be unique".
+ * @returns The validation rule.
+ * @example
+ * ```
+ * email: { type: DataTypes.STRING, validate: unique() }
+ * ```
+ */
+export function unique(message?: string): ValidationRule {
+  const rule: ValidationRule = async (value, { field, repository, client, current }) => {
+    const query = repository.find().withTrashed().where({ [field]: value });
+    if (current) query.whereNot(current);
+    const taken = (await query.count("*", client)) > 0;
+    return !taken || (message ?? `Field ${field} must be unique`);
+  };
+  uniqueRules.add(rule);
+  return rule;
+}
+
+/**
+ * @internal
+ * Checks whether no two records may share a column's value: the column is `unique: true` or has a `unique()` rule.
+ * @param column The column configuration.
+ */
+export function isUniqueColumn(column: ColumnConfig): boolean {
+  const rules = Array.isArray(column.validate) ? column.validate : column.validate ? [column.validate] : [];
+  return !!column.unique || rules.some((rule) => uniqueRules.has(rule));
+}
+
+/**
+ * @internal
+ * Validates an entity against its columns' rules: `required`, `minLength`/`maxLength`, `min`/`max`, `email`, `url`,
+ * enum `values`, `pattern`, `customValidator` and `validate` rules. Columns whose `validateIf` returns false are skipped.
+ * On update, only the properties present on the entity are validated.
+ * @param columns The model's column configuration.
+ * @param context The entity and how it is written.
+ * @returns The error messages of each invalid property; empty if the entity is valid.
+ */
+export async function validateEntity<T>(
+  columns: Record<string, ColumnConfig>,
+  context: Omit<ValidationContext<T>, "field">,
+): Promise<Record<string, string[]>> {
+  const errors: Record<string, string[]> = {};
+  const entity = context.entity as Record<string, any>;
+
+  for (const [field, column] of Object.entries(columns)) {
+    if (context.operation === "update" && !(field in entity)) continue;
+    if (column.validateIf && !column.validateIf(entity)) continue;
+
+    const messages = await validateValue(entity[field], field, column, { ...context, field });
+    if (messages.length > 0) errors[field] = messages;
+  }
+  return errors;
+}
+
+/**
+ * @internal
+ * Validates a single column value.
+ * @param value The value.
+ * @param field The property name.
+ * @param column The column configuration.
+ * @param context The validation context.
+ * @returns The error messages; empty if the value is valid.
+ */
+async function validateValue(value: any, field: string, column: ColumnConfig, context: ValidationContext): Promise<string[]> {
+  if (value === undefined || value === null) {
+    return column.required ? [`Field ${field} is required`] : [];
+  }
+
+  const messages: string[] = [];
+  if (typeof value === "string") {
+    if (column.minLength !== undefined && value.length < column.minLength) {
+      messages.push(`Field ${field} must be at least ${column.minLength} characters long`);
+    }
+    if (column.maxLength !== undefined && value.length > column.maxLength) {
+      messages.push(`Field ${field} must be at most ${column.maxLength} characters long`);
+    }
+    if (column.email && !EMAIL_PATTERN.test(value)) {
+      messages.push(`Field ${field} must be a valid email address`);
+    }
+    if (column.url && !isUrl(value)) {
+      messages.push(`Field ${field} must be a valid URL`);
+    }
+    if (column.pattern && !column.pattern.test(value)) {
+      messages.push(`Field ${field} does not match pattern`);
+    }
+  }
+  if (typeof value === "number" || typeof value === "bigint") {
+    if (column.min !== undefined && value < column.min) messages.push(`Field ${field} must be at least ${column.min}`);
+    if (column.max !== undefined && value > column.max) messages.push(`Field ${field} must be at most ${column.max}`);
+  }
+  if (column.values && !column.values.includes(value)) {
+    messages.push(`Field ${field} must be one of ${column.values.join(", ")}`);
+  }
+
+  const rules = [
+    ...(column.customValidator ? [column.customValidator] : []),
+    ...(Array.isArray(column.validate) ? column.validate : column.validate ? [column.validate] : []),
+  ];
+  for (const rule of rules) {
+    const result = await rule(value, context);
+    if (result !== true) messages.push(typeof result === "string" ? result : `Field ${field} is invalid`);
+  }
+  return messages;
+}
+
+/**
+ * @internal
+ * Checks whether a string is an absolute `http` or `https` URL.
+ * @param value The string to check.
+ */
+function isUrl(value: string): boolean {
+  try {
+    const { protocol } = new URL(value);
+    return protocol === "http:" || protocol === "https:";
+  } catch {
+    return false;
+  }
+}